@@ -0,0 +1,1289 @@
+import { Tx, Chain, Account, types } from 'https://deno.land/x/clarinet@v0.14.0/index.ts';
+import type {
+    AllowedExtension,
+    AssetAction,
+    BondSettings,
+    DaoInfo,
+    Delegation,
+    ExtensionAction,
+    Member,
+    MemberAction,
+    MemberStatus,
+    OptimisticProposal,
+    OptimisticSettings,
+    ParameterChange,
+    ParameterName,
+    Pause,
+    PauseEvent,
+    PauseScope,
+    Payout,
+    Proposal,
+    ProposalBond,
+    ProposalCancellation,
+    ProposalMemberAction,
+    ProposalParameter,
+    ProposalResult,
+    ProposalStatus,
+    ProposalTokenAction,
+    ProposalType,
+    ReputationChange,
+    ReputationReason,
+    ReputationSettings,
+    ReputationStanding,
+    Role,
+    RoleAssignment,
+    RoleChange,
+    SpendingLimits,
+    Stream,
+    StreamBalance,
+    StreamKind,
+    StreamTerms,
+    TokenLock,
+    ThresholdChange,
+    TypeThresholdUpdate,
+    TypeThresholds,
+    TypeVotingMode,
+    TokenAction,
+    TreasuryTransaction,
+    VestingBalance,
+    VestingSchedule,
+    Vote,
+    VoteChoice,
+    VotingMode,
+    VotingModeChange,
+    WhitelistedAsset,
+} from './DaoForge-types.ts';
+import { unwrapResult } from './DaoForge-errors.ts';
+
+export * from './DaoForge-types.ts';
+export * from './DaoForge-errors.ts';
+
+export const CONTRACT_NAME = "DaoForge-contract";
+
+// =================================
+// CLARITY VALUE DECODERS
+// =================================
+
+// Throws rather than round values a JS number cannot hold exactly
+export function decodeUint(value: string): number {
+    if (!/^u\d+$/.test(value)) {
+        throw new Error(`Expected uint, got ${value}`);
+    }
+    if (BigInt(value.slice(1)) > BigInt(Number.MAX_SAFE_INTEGER)) {
+        throw new RangeError(`Uint ${value} exceeds Number.MAX_SAFE_INTEGER`);
+    }
+    return Number(value.slice(1));
+}
+
+export function decodeBool(value: string): boolean {
+    if (value !== "true" && value !== "false") {
+        throw new Error(`Expected bool, got ${value}`);
+    }
+    return value === "true";
+}
+
+export function decodeAscii(value: string): string {
+    return JSON.parse(value);
+}
+
+export function decodeUtf8(value: string): string {
+    if (!value.startsWith('u"')) {
+        throw new Error(`Expected utf8 string, got ${value}`);
+    }
+    return JSON.parse(value.slice(1));
+}
+
+export function decodePrincipal(value: string): string {
+    return value.startsWith("'") ? value.slice(1) : value;
+}
+
+export function decodeOptional<T>(value: string, decode: (inner: string) => T): T | null {
+    return value === "none" ? null : decode(value.expectSome());
+}
+
+export function decodeList<T>(value: string, decode: (item: string) => T): T[] {
+    return value.expectList().map(decode);
+}
+
+export function decodeDaoInfo(value: string): DaoInfo {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        name: decodeUtf8(data["name"]),
+        description: decodeUtf8(data["description"]),
+        totalSupply: decodeUint(data["total-supply"]),
+        treasuryBalance: decodeUint(data["treasury-balance"]),
+        proposalCount: decodeUint(data["proposal-count"]),
+        initialized: decodeBool(data["initialized"]),
+        emergencyPause: decodeBool(data["emergency-pause"]),
+    };
+}
+
+export function decodeMember(value: string): Member {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        joinedAt: decodeUint(data["joined-at"]),
+        votingPower: decodeUint(data["voting-power"]),
+        proposalsCreated: decodeUint(data["proposals-created"]),
+        votesCast: decodeUint(data["votes-cast"]),
+        reputationScore: decodeUint(data["reputation-score"]),
+        active: decodeBool(data["active"]),
+    };
+}
+
+export function decodeMemberStatus(value: string): MemberStatus {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        status: decodeAscii(data["status"]) as MemberStatus["status"],
+        proposalId: decodeUint(data["proposal-id"]),
+        changedAt: decodeUint(data["changed-at"]),
+    };
+}
+
+export function decodeProposal(value: string): Proposal {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        proposer: decodePrincipal(data["proposer"]),
+        title: decodeUtf8(data["title"]),
+        description: decodeUtf8(data["description"]),
+        proposalType: decodeAscii(data["proposal-type"]) as ProposalType,
+        target: decodeOptional(data["target"], decodePrincipal),
+        amount: decodeUint(data["amount"]),
+        createdAt: decodeUint(data["created-at"]),
+        votingEnd: decodeUint(data["voting-end"]),
+        executionDelayEnd: decodeUint(data["execution-delay-end"]),
+        status: decodeAscii(data["status"]) as ProposalStatus,
+        votesFor: decodeUint(data["votes-for"]),
+        votesAgainst: decodeUint(data["votes-against"]),
+        votesAbstain: decodeUint(data["votes-abstain"]),
+        totalVotes: decodeUint(data["total-votes"]),
+        quorumRequired: decodeUint(data["quorum-required"]),
+        approvalThreshold: decodeUint(data["approval-threshold"]),
+        votingMode: decodeAscii(data["voting-mode"]) as VotingMode,
+        executedAt: decodeOptional(data["executed-at"], decodeUint),
+    };
+}
+
+export function decodeOptimisticProposal(value: string): OptimisticProposal {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        vetoRequired: decodeUint(data["veto-required"]),
+        tokensAgainst: decodeUint(data["tokens-against"]),
+    };
+}
+
+export function decodeOptimisticSettings(value: string): OptimisticSettings {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        optimisticPeriod: decodeUint(data["optimistic-period"]),
+        vetoThreshold: decodeUint(data["veto-threshold"]),
+        minReputation: decodeUint(data["min-reputation"]),
+    };
+}
+
+export function decodeProposalBond(value: string): ProposalBond {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        stx: decodeUint(data["stx"]),
+        tokens: decodeUint(data["tokens"]),
+        status: decodeAscii(data["status"]) as ProposalBond["status"],
+    };
+}
+
+export function decodeBondSettings(value: string): BondSettings {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        stxBond: decodeUint(data["stx-bond"]),
+        tokenBond: decodeUint(data["token-bond"]),
+    };
+}
+
+export function decodeProposalCancellation(value: string): ProposalCancellation {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        cancelledBy: decodePrincipal(data["cancelled-by"]),
+        reason: decodeUtf8(data["reason"]),
+        cancelledAt: decodeUint(data["cancelled-at"]),
+    };
+}
+
+export function decodeVote(value: string): Vote {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        choice: decodeAscii(data["choice"]) as VoteChoice,
+        votingPower: decodeUint(data["voting-power"]),
+        tokens: decodeUint(data["tokens"]),
+        votedAt: decodeUint(data["voted-at"]),
+        delegate: decodeOptional(data["delegate"], decodePrincipal),
+        changes: decodeUint(data["changes"]),
+    };
+}
+
+export function decodeTokenLock(value: string): TokenLock {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        amount: decodeUint(data["amount"]),
+        lockedAt: decodeUint(data["locked-at"]),
+        end: decodeUint(data["end"]),
+    };
+}
+
+export function decodeDelegation(value: string): Delegation {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        delegate: decodePrincipal(data["delegate"]),
+        delegatedAt: decodeUint(data["delegated-at"]),
+    };
+}
+
+export function decodeTreasuryTransaction(value: string): TreasuryTransaction {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        transactionType: decodeAscii(data["transaction-type"]),
+        amount: decodeUint(data["amount"]),
+        from: decodeOptional(data["from"], decodePrincipal),
+        to: decodeOptional(data["to"], decodePrincipal),
+        proposalId: decodeOptional(data["proposal-id"], decodeUint),
+        asset: decodeOptional(data["asset"], decodePrincipal),
+        timestamp: decodeUint(data["timestamp"]),
+        blockHeight: decodeUint(data["block-height"]),
+    };
+}
+
+export function decodePayout(value: string): Payout {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        recipient: decodePrincipal(data["recipient"]),
+        amount: decodeUint(data["amount"]),
+    };
+}
+
+export function decodeWhitelistedAsset(value: string): WhitelistedAsset {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        addedAt: decodeUint(data["added-at"]),
+        proposalId: decodeUint(data["proposal-id"]),
+    };
+}
+
+export function decodeAllowedExtension(value: string): AllowedExtension {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        addedAt: decodeUint(data["added-at"]),
+        proposalId: decodeUint(data["proposal-id"]),
+    };
+}
+
+export function decodeProposalParameter(value: string): ProposalParameter {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        parameter: decodeAscii(data["parameter"]) as ParameterName,
+        newValue: decodeUint(data["new-value"]),
+    };
+}
+
+export function decodeProposalMemberAction(value: string): ProposalMemberAction {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        action: decodeAscii(data["action"]) as MemberAction,
+        tokenAmount: decodeUint(data["token-amount"]),
+    };
+}
+
+export function decodeProposalTokenAction(value: string): ProposalTokenAction {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        action: decodeAscii(data["action"]) as TokenAction,
+        amount: decodeUint(data["amount"]),
+        cliff: decodeUint(data["cliff"]),
+        duration: decodeUint(data["duration"]),
+    };
+}
+
+export function decodeVestingSchedule(value: string): VestingSchedule {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        total: decodeUint(data["total"]),
+        claimed: decodeUint(data["claimed"]),
+        start: decodeUint(data["start"]),
+        cliff: decodeUint(data["cliff"]),
+        duration: decodeUint(data["duration"]),
+        proposalId: decodeUint(data["proposal-id"]),
+    };
+}
+
+export function decodeVestingBalance(value: string): VestingBalance {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        vested: decodeUint(data["vested"]),
+        unvested: decodeUint(data["unvested"]),
+        claimed: decodeUint(data["claimed"]),
+        claimable: decodeUint(data["claimable"]),
+    };
+}
+
+export function decodeStreamTerms(value: string): StreamTerms {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        kind: decodeAscii(data["kind"]) as StreamKind,
+        rate: decodeUint(data["rate"]),
+        period: decodeUint(data["period"]),
+        start: decodeUint(data["start"]),
+        end: decodeUint(data["end"]),
+    };
+}
+
+export function decodeStream(value: string): Stream {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        ...decodeStreamTerms(value),
+        recipient: decodePrincipal(data["recipient"]),
+        total: decodeUint(data["total"]),
+        claimed: decodeUint(data["claimed"]),
+        proposalId: decodeUint(data["proposal-id"]),
+        cancelledAt: decodeOptional(data["cancelled-at"], decodeUint),
+    };
+}
+
+export function decodeStreamBalance(value: string): StreamBalance {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        accrued: decodeUint(data["accrued"]),
+        unaccrued: decodeUint(data["unaccrued"]),
+        claimed: decodeUint(data["claimed"]),
+        claimable: decodeUint(data["claimable"]),
+    };
+}
+
+export function decodeSpendingLimits(value: string): SpendingLimits {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        maxSpendPercentage: decodeUint(data["max-spend-percentage"]),
+        periodSpendCap: decodeUint(data["period-spend-cap"]),
+        spendPeriod: decodeUint(data["spend-period"]),
+        largeSpendPercent: decodeUint(data["large-spend-percent"]),
+        largeSpendQuorum: decodeUint(data["large-spend-quorum"]),
+    };
+}
+
+export function decodeTypeThresholds(value: string): TypeThresholds {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        quorumPercentage: decodeUint(data["quorum-percentage"]),
+        approvalThreshold: decodeUint(data["approval-threshold"]),
+    };
+}
+
+export function decodeTypeThresholdUpdate(value: string): TypeThresholdUpdate {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        ...decodeTypeThresholds(value),
+        proposalId: decodeUint(data["proposal-id"]),
+        updatedAt: decodeUint(data["updated-at"]),
+    };
+}
+
+export function decodeThresholdChange(value: string): ThresholdChange {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        ...decodeTypeThresholds(value),
+        proposalType: decodeAscii(data["proposal-type"]) as ProposalType,
+    };
+}
+
+export function decodeReputationChange(value: string): ReputationChange {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        oldScore: decodeUint(data["old-score"]),
+        newScore: decodeUint(data["new-score"]),
+        reason: decodeAscii(data["reason"]) as ReputationReason,
+        proposalId: decodeOptional(data["proposal-id"], decodeUint),
+        changedAt: decodeUint(data["changed-at"]),
+    };
+}
+
+export function decodeReputationStanding(value: string): ReputationStanding {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        member: decodePrincipal(data["member"]),
+        reputation: decodeUint(data["reputation"]),
+        lastActive: decodeOptional(data["last-active"], decodeUint),
+        changeCount: decodeUint(data["change-count"]),
+    };
+}
+
+export function decodeReputationSettings(value: string): ReputationSettings {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        minProposalReputation: decodeUint(data["min-proposal-reputation"]),
+        maxReputation: decodeUint(data["max-reputation"]),
+        voteReward: decodeUint(data["vote-reward"]),
+        executionReward: decodeUint(data["execution-reward"]),
+        defeatPenalty: decodeUint(data["defeat-penalty"]),
+        cancellationPenalty: decodeUint(data["cancellation-penalty"]),
+        decay: decodeUint(data["decay"]),
+        decayPeriod: decodeUint(data["decay-period"]),
+    };
+}
+
+export function decodeTypeVotingMode(value: string): TypeVotingMode {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        votingMode: decodeAscii(data["voting-mode"]) as VotingMode,
+        proposalId: decodeUint(data["proposal-id"]),
+        updatedAt: decodeUint(data["updated-at"]),
+    };
+}
+
+export function decodeVotingModeChange(value: string): VotingModeChange {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        proposalType: decodeAscii(data["proposal-type"]) as ProposalType,
+        votingMode: decodeAscii(data["voting-mode"]) as VotingMode,
+    };
+}
+
+export function decodeParameterChange(value: string): ParameterChange {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        parameter: decodeAscii(data["parameter"]) as ParameterName,
+        oldValue: decodeUint(data["old-value"]),
+        newValue: decodeUint(data["new-value"]),
+        proposalId: decodeUint(data["proposal-id"]),
+        changedAt: decodeUint(data["changed-at"]),
+    };
+}
+
+export function decodeProposalResult(value: string): ProposalResult {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        status: decodeAscii(data["status"]) as ProposalResult["status"],
+        passed: decodeBool(data["passed"]),
+        hasQuorum: decodeBool(data["has-quorum"]),
+        votesFor: decodeUint(data["votes-for"]),
+        votesAgainst: decodeUint(data["votes-against"]),
+        votesAbstain: decodeUint(data["votes-abstain"]),
+        totalVotes: decodeUint(data["total-votes"]),
+        quorumRequired: decodeUint(data["quorum-required"]),
+        approvalThreshold: decodeUint(data["approval-threshold"]),
+    };
+}
+
+export function decodeRoleAssignment(value: string): RoleAssignment {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        role: decodeAscii(data["role"]) as Role,
+        grantedBy: decodePrincipal(data["granted-by"]),
+        grantedAt: decodeUint(data["granted-at"]),
+        active: decodeBool(data["active"]),
+    };
+}
+
+export function decodeRoleChange(value: string): RoleChange {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        account: decodePrincipal(data["account"]),
+        role: decodeAscii(data["role"]) as Role,
+        action: decodeAscii(data["action"]) as RoleChange["action"],
+        changedBy: decodePrincipal(data["changed-by"]),
+        changedAt: decodeUint(data["changed-at"]),
+    };
+}
+
+export function decodePause(value: string): Pause {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        reason: decodeUtf8(data["reason"]),
+        pausedBy: decodePrincipal(data["paused-by"]),
+        pausedAt: decodeUint(data["paused-at"]),
+        expiresAt: decodeOptional(data["expires-at"], decodeUint),
+    };
+}
+
+export function decodePauseEvent(value: string): PauseEvent {
+    const data = value.expectTuple() as Record<string, string>;
+    return {
+        action: decodeAscii(data["action"]) as PauseEvent["action"],
+        scope: decodeAscii(data["scope"]) as PauseScope,
+        reason: decodeUtf8(data["reason"]),
+        account: decodePrincipal(data["account"]),
+        blockHeight: decodeUint(data["block-height"]),
+        expiresAt: decodeOptional(data["expires-at"], decodeUint),
+    };
+}
+
+// =================================
+// CLIENT
+// =================================
+
+// Typed binding for DaoForge-contract.
+// Public functions return a Tx to be mined with chain.mineBlock, read-only
+// functions are evaluated immediately and return decoded values.
+export class DaoForgeClient {
+    constructor(
+        readonly chain: Chain,
+        readonly caller: Account,
+        readonly contractName: string = CONTRACT_NAME,
+    ) {}
+
+    private call(method: string, args: string[], sender: string): Tx {
+        return Tx.contractCall(this.contractName, method, args, sender);
+    }
+
+    private readOnly(method: string, args: string[] = []): string {
+        return this.chain.callReadOnlyFn(this.contractName, method, args, this.caller.address).result;
+    }
+
+    // Mines a single transaction and returns its (ok ...) value,
+    // throwing the matching DaoForgeError subclass if the call failed
+    submit(tx: Tx): string {
+        const block = this.chain.mineBlock([tx]);
+        return unwrapResult(block.receipts[0].result, tx.contractCall!.method);
+    }
+
+    // ---------------------------------
+    // Public functions
+    // ---------------------------------
+
+    initializeDao(name: string, description: string, initialSupply: number, sender: string): Tx {
+        return this.call("initialize-dao", [
+            types.utf8(name),
+            types.utf8(description),
+            types.uint(initialSupply),
+        ], sender);
+    }
+
+    joinDao(sender: string): Tx {
+        return this.call("join-dao", [], sender);
+    }
+
+    leaveDao(sender: string): Tx {
+        return this.call("leave-dao", [], sender);
+    }
+
+    transferTokens(recipient: string, amount: number, sender: string): Tx {
+        return this.call("transfer-tokens", [types.principal(recipient), types.uint(amount)], sender);
+    }
+
+    // Adds to any existing lock, which keeps the later of the two unlock heights
+    lockTokens(amount: number, duration: number, sender: string): Tx {
+        return this.call("lock-tokens", [types.uint(amount), types.uint(duration)], sender);
+    }
+
+    withdrawLockedTokens(sender: string): Tx {
+        return this.call("withdraw-locked-tokens", [], sender);
+    }
+
+    // SIP-010 transfer of `owner`'s tokens, submitted by `sender`
+    transfer(amount: number, owner: string, recipient: string, memo: ArrayBuffer | null, sender: string): Tx {
+        return this.call("transfer", [
+            types.uint(amount),
+            types.principal(owner),
+            types.principal(recipient),
+            memo === null ? types.none() : types.some(types.buff(memo)),
+        ], sender);
+    }
+
+    setTokenUri(uri: string | null, sender: string): Tx {
+        return this.call("set-token-uri", [uri === null ? types.none() : types.some(types.utf8(uri))], sender);
+    }
+
+    createProposal(
+        title: string,
+        description: string,
+        proposalType: ProposalType | string,
+        target: string | null,
+        amount: number,
+        sender: string,
+    ): Tx {
+        return this.call("create-proposal", [
+            types.utf8(title),
+            types.utf8(description),
+            types.ascii(proposalType),
+            target === null ? types.none() : types.some(types.principal(target)),
+            types.uint(amount),
+        ], sender);
+    }
+
+    // Same arguments as createProposal; passes after the veto window unless vetoed
+    createOptimisticProposal(
+        title: string,
+        description: string,
+        proposalType: ProposalType | string,
+        target: string | null,
+        amount: number,
+        sender: string,
+    ): Tx {
+        return this.call("create-optimistic-proposal", [
+            types.utf8(title),
+            types.utf8(description),
+            types.ascii(proposalType),
+            target === null ? types.none() : types.some(types.principal(target)),
+            types.uint(amount),
+        ], sender);
+    }
+
+    createParameterProposal(
+        title: string,
+        description: string,
+        parameter: ParameterName | string,
+        newValue: number,
+        sender: string,
+    ): Tx {
+        return this.call("create-parameter-proposal", [
+            types.utf8(title),
+            types.utf8(description),
+            types.ascii(parameter),
+            types.uint(newValue),
+        ], sender);
+    }
+
+    // quorum and approval are percentages; approval must be at least 50 and below 100
+    createThresholdProposal(
+        title: string,
+        description: string,
+        proposalType: ProposalType | string,
+        quorum: number,
+        approval: number,
+        sender: string,
+    ): Tx {
+        return this.call("create-threshold-proposal", [
+            types.utf8(title),
+            types.utf8(description),
+            types.ascii(proposalType),
+            types.uint(quorum),
+            types.uint(approval),
+        ], sender);
+    }
+
+    createVotingModeProposal(
+        title: string,
+        description: string,
+        proposalType: ProposalType | string,
+        mode: VotingMode | string,
+        sender: string,
+    ): Tx {
+        return this.call("create-voting-mode-proposal", [
+            types.utf8(title),
+            types.utf8(description),
+            types.ascii(proposalType),
+            types.ascii(mode),
+        ], sender);
+    }
+
+    createMemberProposal(
+        title: string,
+        description: string,
+        action: MemberAction | string,
+        target: string,
+        tokenAmount: number,
+        sender: string,
+    ): Tx {
+        return this.call("create-member-proposal", [
+            types.utf8(title),
+            types.utf8(description),
+            types.ascii(action),
+            types.principal(target),
+            types.uint(tokenAmount),
+        ], sender);
+    }
+
+    // cliff and duration are in blocks and only apply to "vest"
+    createTokenProposal(
+        title: string,
+        description: string,
+        action: TokenAction | string,
+        target: string,
+        amount: number,
+        cliff: number,
+        duration: number,
+        sender: string,
+    ): Tx {
+        return this.call("create-token-proposal", [
+            types.utf8(title),
+            types.utf8(description),
+            types.ascii(action),
+            types.principal(target),
+            types.uint(amount),
+            types.uint(cliff),
+            types.uint(duration),
+        ], sender);
+    }
+
+    createAssetProposal(
+        title: string,
+        description: string,
+        action: AssetAction | string,
+        asset: string,
+        sender: string,
+    ): Tx {
+        return this.call("create-asset-proposal", [
+            types.utf8(title),
+            types.utf8(description),
+            types.ascii(action),
+            types.principal(asset),
+        ], sender);
+    }
+
+    // Caps what the treasury may pay out of `asset` over any spend period, in the asset's units
+    createAssetCapProposal(title: string, description: string, asset: string, cap: number, sender: string): Tx {
+        return this.call("create-asset-cap-proposal", [
+            types.utf8(title),
+            types.utf8(description),
+            types.principal(asset),
+            types.uint(cap),
+        ], sender);
+    }
+
+    createExtensionProposal(
+        title: string,
+        description: string,
+        action: ExtensionAction | string,
+        extension: string,
+        sender: string,
+    ): Tx {
+        return this.call("create-extension-proposal", [
+            types.utf8(title),
+            types.utf8(description),
+            types.ascii(action),
+            types.principal(extension),
+        ], sender);
+    }
+
+    createActionProposal(title: string, description: string, extension: string, sender: string): Tx {
+        return this.call("create-action-proposal", [
+            types.utf8(title),
+            types.utf8(description),
+            types.principal(extension),
+        ], sender);
+    }
+
+    // Treasury proposal paying `amount` of the SIP-010 `asset` to `recipient`
+    createAssetTreasuryProposal(
+        title: string,
+        description: string,
+        asset: string,
+        recipient: string,
+        amount: number,
+        sender: string,
+    ): Tx {
+        return this.call("create-asset-treasury-proposal", [
+            types.utf8(title),
+            types.utf8(description),
+            types.principal(asset),
+            types.principal(recipient),
+            types.uint(amount),
+        ], sender);
+    }
+
+    // start and end are block heights; period is in blocks and must be 1 for "stream"
+    createStreamProposal(
+        title: string,
+        description: string,
+        recipient: string,
+        kind: StreamKind | string,
+        rate: number,
+        period: number,
+        start: number,
+        end: number,
+        sender: string,
+    ): Tx {
+        return this.call("create-stream-proposal", [
+            types.utf8(title),
+            types.utf8(description),
+            types.principal(recipient),
+            types.ascii(kind),
+            types.uint(rate),
+            types.uint(period),
+            types.uint(start),
+            types.uint(end),
+        ], sender);
+    }
+
+    createStreamCancellationProposal(title: string, description: string, streamId: number, sender: string): Tx {
+        return this.call("create-stream-cancellation-proposal", [
+            types.utf8(title),
+            types.utf8(description),
+            types.uint(streamId),
+        ], sender);
+    }
+
+    // Treasury proposal paying STX to up to 20 recipients at once
+    createBatchTreasuryProposal(title: string, description: string, payouts: Payout[], sender: string): Tx {
+        return this.call("create-batch-treasury-proposal", [
+            types.utf8(title),
+            types.utf8(description),
+            types.list(payouts.map((payout) => types.tuple({
+                recipient: types.principal(payout.recipient),
+                amount: types.uint(payout.amount),
+            }))),
+        ], sender);
+    }
+
+    voteOnProposal(proposalId: number, voteFor: boolean, sender: string): Tx {
+        return this.call("vote-on-proposal", [types.uint(proposalId), types.bool(voteFor)], sender);
+    }
+
+    // Casting a different choice later changes the vote while voting is open
+    castVote(proposalId: number, choice: VoteChoice | string, sender: string): Tx {
+        return this.call("cast-vote", [types.uint(proposalId), types.ascii(choice)], sender);
+    }
+
+    delegateVotes(delegate: string, sender: string): Tx {
+        return this.call("delegate-votes", [types.principal(delegate)], sender);
+    }
+
+    revokeDelegation(sender: string): Tx {
+        return this.call("revoke-delegation", [], sender);
+    }
+
+    delegateVotesOnProposal(proposalId: number, delegate: string, sender: string): Tx {
+        return this.call("delegate-votes-on-proposal", [types.uint(proposalId), types.principal(delegate)], sender);
+    }
+
+    revokeProposalDelegation(proposalId: number, sender: string): Tx {
+        return this.call("revoke-proposal-delegation", [types.uint(proposalId)], sender);
+    }
+
+    cancelProposal(proposalId: number, reason: string, sender: string): Tx {
+        return this.call("cancel-proposal", [types.uint(proposalId), types.utf8(reason)], sender);
+    }
+
+    finalizeProposal(proposalId: number, sender: string): Tx {
+        return this.call("finalize-proposal", [types.uint(proposalId)], sender);
+    }
+
+    // Returns false after finalizing a proposal that did not pass
+    executeProposal(proposalId: number, sender: string): Tx {
+        return this.call("execute-proposal", [types.uint(proposalId)], sender);
+    }
+
+    // `asset` is the SIP-010 contract recorded on the proposal
+    executeAssetTreasuryProposal(proposalId: number, asset: string, sender: string): Tx {
+        return this.call("execute-asset-treasury-proposal", [types.uint(proposalId), types.principal(asset)], sender);
+    }
+
+    // extension must be the contract the action proposal was created for
+    executeActionProposal(proposalId: number, extension: string, sender: string): Tx {
+        return this.call("execute-action-proposal", [types.uint(proposalId), types.principal(extension)], sender);
+    }
+
+    claimVested(sender: string): Tx {
+        return this.call("claim-vested", [], sender);
+    }
+
+    depositToTreasury(amount: number, sender: string): Tx {
+        return this.call("deposit-to-treasury", [types.uint(amount)], sender);
+    }
+
+    claimStream(streamId: number, sender: string): Tx {
+        return this.call("claim-stream", [types.uint(streamId)], sender);
+    }
+
+    depositAsset(asset: string, amount: number, sender: string): Tx {
+        return this.call("deposit-asset", [types.principal(asset), types.uint(amount)], sender);
+    }
+
+    // A duration of 0 pauses until resumed
+    pauseOperations(scope: PauseScope, reason: string, duration: number, sender: string): Tx {
+        return this.call("pause-operations", [types.ascii(scope), types.utf8(reason), types.uint(duration)], sender);
+    }
+
+    resumeScope(scope: PauseScope, sender: string): Tx {
+        return this.call("resume-scope", [types.ascii(scope)], sender);
+    }
+
+    setEmergencyPause(sender: string): Tx {
+        return this.call("set-emergency-pause", [], sender);
+    }
+
+    resumeOperations(sender: string): Tx {
+        return this.call("resume-operations", [], sender);
+    }
+
+    grantRole(account: string, role: Role, sender: string): Tx {
+        return this.call("grant-role", [types.principal(account), types.ascii(role)], sender);
+    }
+
+    revokeRole(account: string, sender: string): Tx {
+        return this.call("revoke-role", [types.principal(account)], sender);
+    }
+
+    treasurerPayment(recipient: string, amount: number, sender: string): Tx {
+        return this.call("treasurer-payment", [types.principal(recipient), types.uint(amount)], sender);
+    }
+
+    // Burns all of the sender's tokens for their treasury share, after a passed proposal they voted against
+    ragequit(proposalId: number, sender: string): Tx {
+        return this.call("ragequit", [types.uint(proposalId)], sender);
+    }
+
+    // ---------------------------------
+    // Read-only functions
+    // ---------------------------------
+
+    getDaoInfo(): DaoInfo {
+        return decodeDaoInfo(this.readOnly("get-dao-info"));
+    }
+
+    getMemberInfo(member: string): Member | null {
+        return decodeOptional(this.readOnly("get-member-info", [types.principal(member)]), decodeMember);
+    }
+
+    getMemberStatus(member: string): MemberStatus | null {
+        return decodeOptional(this.readOnly("get-member-status", [types.principal(member)]), decodeMemberStatus);
+    }
+
+    getTokenBalance(account: string): number {
+        return decodeUint(this.readOnly("get-token-balance", [types.principal(account)]));
+    }
+
+    // Token balance plus the current lock boost
+    getVotingPower(account: string): number {
+        return decodeUint(this.readOnly("get-voting-power", [types.principal(account)]));
+    }
+
+    getTokenLock(account: string): TokenLock | null {
+        return decodeOptional(this.readOnly("get-token-lock", [types.principal(account)]), decodeTokenLock);
+    }
+
+    getRagequitShare(account: string): number {
+        return decodeUint(this.readOnly("get-ragequit-share", [types.principal(account)]));
+    }
+
+    getVotingPowerAt(account: string, height: number): number {
+        return decodeUint(this.readOnly("get-voting-power-at", [types.principal(account), types.uint(height)]));
+    }
+
+    getProposal(proposalId: number): Proposal | null {
+        return decodeOptional(this.readOnly("get-proposal", [types.uint(proposalId)]), decodeProposal);
+    }
+
+    getProposalCancellation(proposalId: number): ProposalCancellation | null {
+        return decodeOptional(
+            this.readOnly("get-proposal-cancellation", [types.uint(proposalId)]),
+            decodeProposalCancellation,
+        );
+    }
+
+    getVote(proposalId: number, voter: string): Vote | null {
+        return decodeOptional(
+            this.readOnly("get-vote", [types.uint(proposalId), types.principal(voter)]),
+            decodeVote,
+        );
+    }
+
+    getTreasuryTransaction(txId: number): TreasuryTransaction | null {
+        return decodeOptional(
+            this.readOnly("get-treasury-transaction", [types.uint(txId)]),
+            decodeTreasuryTransaction,
+        );
+    }
+
+    getWhitelistedAsset(asset: string): WhitelistedAsset | null {
+        return decodeOptional(this.readOnly("get-whitelisted-asset", [types.principal(asset)]), decodeWhitelistedAsset);
+    }
+
+    // With the DAO contract as the asset, the governance tokens held from slashed bonds
+    getTreasuryAssetBalance(asset: string): number {
+        return decodeUint(this.readOnly("get-treasury-asset-balance", [types.principal(asset)]));
+    }
+
+    getAssetAction(proposalId: number): AssetAction | null {
+        return decodeOptional(
+            this.readOnly("get-asset-action", [types.uint(proposalId)]),
+            (value) => decodeAscii(value) as AssetAction,
+        );
+    }
+
+    getProposalAsset(proposalId: number): string | null {
+        return decodeOptional(this.readOnly("get-proposal-asset", [types.uint(proposalId)]), decodePrincipal);
+    }
+
+    getAllowedExtension(extension: string): AllowedExtension | null {
+        return decodeOptional(this.readOnly("get-allowed-extension", [types.principal(extension)]), decodeAllowedExtension);
+    }
+
+    getExtensionAction(proposalId: number): ExtensionAction | null {
+        return decodeOptional(
+            this.readOnly("get-extension-action", [types.uint(proposalId)]),
+            (value) => decodeAscii(value) as ExtensionAction,
+        );
+    }
+
+    getProposalPayouts(proposalId: number): Payout[] | null {
+        return decodeOptional(
+            this.readOnly("get-proposal-payouts", [types.uint(proposalId)]),
+            (value) => decodeList(value, decodePayout),
+        );
+    }
+
+    getDelegate(account: string): Delegation | null {
+        return decodeOptional(this.readOnly("get-delegate", [types.principal(account)]), decodeDelegation);
+    }
+
+    getProposalDelegate(proposalId: number, account: string): Delegation | null {
+        return decodeOptional(
+            this.readOnly("get-proposal-delegate", [types.uint(proposalId), types.principal(account)]),
+            decodeDelegation,
+        );
+    }
+
+    getDelegators(delegate: string): string[] {
+        return decodeList(this.readOnly("get-delegators", [types.principal(delegate)]), decodePrincipal);
+    }
+
+    getDelegatedPower(delegate: string): number {
+        return decodeUint(this.readOnly("get-delegated-power", [types.principal(delegate)]));
+    }
+
+    hasVoted(proposalId: number, voter: string): boolean {
+        return decodeBool(this.readOnly("has-voted", [types.uint(proposalId), types.principal(voter)]));
+    }
+
+    getPause(scope: PauseScope): Pause | null {
+        return decodeOptional(this.readOnly("get-pause", [types.ascii(scope)]), decodePause);
+    }
+
+    isScopePaused(scope: PauseScope): boolean {
+        return decodeBool(this.readOnly("is-scope-paused", [types.ascii(scope)]));
+    }
+
+    getPauseEvent(eventId: number): PauseEvent | null {
+        return decodeOptional(this.readOnly("get-pause-event", [types.uint(eventId)]), decodePauseEvent);
+    }
+
+    getPauseEventCount(): number {
+        return decodeUint(this.readOnly("get-pause-event-count"));
+    }
+
+    getRole(account: string): RoleAssignment | null {
+        return decodeOptional(this.readOnly("get-role", [types.principal(account)]), decodeRoleAssignment);
+    }
+
+    getRoleChange(changeId: number): RoleChange | null {
+        return decodeOptional(this.readOnly("get-role-change", [types.uint(changeId)]), decodeRoleChange);
+    }
+
+    getRoleChangeCount(): number {
+        return decodeUint(this.readOnly("get-role-change-count"));
+    }
+
+    getAdminCount(): number {
+        return decodeUint(this.readOnly("get-admin-count"));
+    }
+
+    getTreasurerAllowance(account: string): number {
+        return decodeUint(this.readOnly("get-treasurer-allowance", [types.principal(account)]));
+    }
+
+    getVotingPeriod(): number {
+        return decodeUint(this.readOnly("get-voting-period"));
+    }
+
+    getQuorumPercentage(): number {
+        return decodeUint(this.readOnly("get-quorum-percentage"));
+    }
+
+    getExecutionDelay(): number {
+        return decodeUint(this.readOnly("get-execution-delay"));
+    }
+
+    getProposalBond(proposalId: number): ProposalBond | null {
+        return decodeOptional(this.readOnly("get-proposal-bond", [types.uint(proposalId)]), decodeProposalBond);
+    }
+
+    getBondSettings(): BondSettings {
+        return decodeBondSettings(this.readOnly("get-bond-settings"));
+    }
+
+    getOptimisticProposal(proposalId: number): OptimisticProposal | null {
+        return decodeOptional(
+            this.readOnly("get-optimistic-proposal", [types.uint(proposalId)]),
+            decodeOptimisticProposal,
+        );
+    }
+
+    getOptimisticSettings(): OptimisticSettings {
+        return decodeOptimisticSettings(this.readOnly("get-optimistic-settings"));
+    }
+
+    getTypeThresholds(proposalType: ProposalType): TypeThresholds {
+        return decodeTypeThresholds(this.readOnly("get-type-thresholds", [types.ascii(proposalType)]));
+    }
+
+    getTypeThresholdUpdate(proposalType: ProposalType): TypeThresholdUpdate | null {
+        return decodeOptional(
+            this.readOnly("get-type-threshold-update", [types.ascii(proposalType)]),
+            decodeTypeThresholdUpdate,
+        );
+    }
+
+    getThresholdChange(proposalId: number): ThresholdChange | null {
+        return decodeOptional(this.readOnly("get-threshold-change", [types.uint(proposalId)]), decodeThresholdChange);
+    }
+
+    getTypeVotingMode(proposalType: ProposalType): VotingMode {
+        return decodeAscii(this.readOnly("get-type-voting-mode", [types.ascii(proposalType)])) as VotingMode;
+    }
+
+    getTypeVotingModeUpdate(proposalType: ProposalType): TypeVotingMode | null {
+        return decodeOptional(
+            this.readOnly("get-type-voting-mode-update", [types.ascii(proposalType)]),
+            decodeTypeVotingMode,
+        );
+    }
+
+    getVotingModeChange(proposalId: number): VotingModeChange | null {
+        return decodeOptional(this.readOnly("get-voting-mode-change", [types.uint(proposalId)]), decodeVotingModeChange);
+    }
+
+    // Weight of a direct vote on the proposal, before any delegated power
+    getVotingWeight(proposalId: number, account: string): number {
+        return decodeUint(this.readOnly("get-voting-weight", [types.uint(proposalId), types.principal(account)]));
+    }
+
+    getSpendingLimits(): SpendingLimits {
+        return decodeSpendingLimits(this.readOnly("get-spending-limits"));
+    }
+
+    // STX paid out over the trailing spend period
+    getCurrentOutflow(): number {
+        return decodeUint(this.readOnly("get-current-outflow"));
+    }
+
+    getAssetOutflow(asset: string): number {
+        return decodeUint(this.readOnly("get-asset-outflow", [types.principal(asset)]));
+    }
+
+    getAssetSpendCap(asset: string): number {
+        return decodeUint(this.readOnly("get-asset-spend-cap", [types.principal(asset)]));
+    }
+
+    // Reputation after any decay owed for inactivity
+    getReputation(account: string): number {
+        return decodeUint(this.readOnly("get-reputation", [types.principal(account)]));
+    }
+
+    getReputationStanding(account: string): ReputationStanding {
+        return decodeReputationStanding(this.readOnly("get-reputation-standing", [types.principal(account)]));
+    }
+
+    getReputationStandings(accounts: string[]): ReputationStanding[] {
+        return decodeList(
+            this.readOnly("get-reputation-standings", [types.list(accounts.map((account) => types.principal(account)))]),
+            decodeReputationStanding,
+        );
+    }
+
+    getReputationChange(member: string, index: number): ReputationChange | null {
+        return decodeOptional(
+            this.readOnly("get-reputation-change", [types.principal(member), types.uint(index)]),
+            decodeReputationChange,
+        );
+    }
+
+    getReputationChangeCount(member: string): number {
+        return decodeUint(this.readOnly("get-reputation-change-count", [types.principal(member)]));
+    }
+
+    getReputationSettings(): ReputationSettings {
+        return decodeReputationSettings(this.readOnly("get-reputation-settings"));
+    }
+
+    getProposalParameter(proposalId: number): ProposalParameter | null {
+        return decodeOptional(
+            this.readOnly("get-proposal-parameter", [types.uint(proposalId)]),
+            decodeProposalParameter,
+        );
+    }
+
+    getTokenAction(proposalId: number): ProposalTokenAction | null {
+        return decodeOptional(this.readOnly("get-token-action", [types.uint(proposalId)]), decodeProposalTokenAction);
+    }
+
+    getVestingSchedule(account: string): VestingSchedule | null {
+        return decodeOptional(this.readOnly("get-vesting-schedule", [types.principal(account)]), decodeVestingSchedule);
+    }
+
+    getVestingBalance(account: string): VestingBalance {
+        return decodeVestingBalance(this.readOnly("get-vesting-balance", [types.principal(account)]));
+    }
+
+    getStream(streamId: number): Stream | null {
+        return decodeOptional(this.readOnly("get-stream", [types.uint(streamId)]), decodeStream);
+    }
+
+    getStreamBalance(streamId: number): StreamBalance {
+        return decodeStreamBalance(this.readOnly("get-stream-balance", [types.uint(streamId)]));
+    }
+
+    getStreamCount(): number {
+        return decodeUint(this.readOnly("get-stream-count"));
+    }
+
+    getStreamReserve(): number {
+        return decodeUint(this.readOnly("get-stream-reserve"));
+    }
+
+    getStreamTerms(proposalId: number): StreamTerms | null {
+        return decodeOptional(this.readOnly("get-stream-terms", [types.uint(proposalId)]), decodeStreamTerms);
+    }
+
+    getStreamCancellation(proposalId: number): number | null {
+        return decodeOptional(this.readOnly("get-stream-cancellation", [types.uint(proposalId)]), decodeUint);
+    }
+
+    getMemberAction(proposalId: number): ProposalMemberAction | null {
+        return decodeOptional(
+            this.readOnly("get-member-action", [types.uint(proposalId)]),
+            decodeProposalMemberAction,
+        );
+    }
+
+    getParameterChange(changeId: number): ParameterChange | null {
+        return decodeOptional(
+            this.readOnly("get-parameter-change", [types.uint(changeId)]),
+            decodeParameterChange,
+        );
+    }
+
+    getParameterChangeCount(): number {
+        return decodeUint(this.readOnly("get-parameter-change-count"));
+    }
+
+    isProposalActive(proposalId: number): boolean {
+        return decodeBool(this.readOnly("is-proposal-active", [types.uint(proposalId)]));
+    }
+
+    getProposalResult(proposalId: number): ProposalResult {
+        return decodeProposalResult(this.readOnly("get-proposal-result", [types.uint(proposalId)]));
+    }
+
+    // ---------------------------------
+    // SIP-010 read-only functions
+    // ---------------------------------
+
+    getName(): string {
+        return decodeAscii(this.readOnly("get-name").expectOk());
+    }
+
+    getSymbol(): string {
+        return decodeAscii(this.readOnly("get-symbol").expectOk());
+    }
+
+    getDecimals(): number {
+        return decodeUint(this.readOnly("get-decimals").expectOk());
+    }
+
+    getBalance(account: string): number {
+        return decodeUint(this.readOnly("get-balance", [types.principal(account)]).expectOk());
+    }
+
+    getTotalSupply(): number {
+        return decodeUint(this.readOnly("get-total-supply").expectOk());
+    }
+
+    getTokenUri(): string | null {
+        return decodeOptional(this.readOnly("get-token-uri").expectOk(), decodeUtf8);
+    }
+}
@@ -0,0 +1,175 @@
+// Typed errors for the ERR-* constants defined in DaoForge-contract.
+// tests/DaoForge-errors_test.ts checks this table against the contract source.
+
+export const ErrorCode = {
+    UNAUTHORIZED: 100,
+    INVALID_PROPOSAL: 101,
+    PROPOSAL_NOT_FOUND: 102,
+    VOTING_PERIOD_ENDED: 103,
+    ALREADY_VOTED: 104,
+    INSUFFICIENT_TOKENS: 105,
+    PROPOSAL_NOT_ACTIVE: 106,
+    PROPOSAL_ALREADY_EXECUTED: 107,
+    EXECUTION_FAILED: 108,
+    EMERGENCY_PAUSE: 109,
+    INVALID_PARAMETERS: 110,
+    ALLOWANCE_EXCEEDED: 111,
+    LAST_ADMIN: 112,
+    SPENDING_LIMIT_EXCEEDED: 113,
+    INSUFFICIENT_REPUTATION: 114,
+    TOKENS_LOCKED: 115,
+} as const;
+
+export type ErrorCodeName = keyof typeof ErrorCode;
+
+// Name of the Clarity constant backing an error code, e.g. ERR-UNAUTHORIZED
+export function constantName(name: ErrorCodeName): string {
+    return `ERR-${name.replace(/_/g, "-")}`;
+}
+
+export class DaoForgeError extends Error {
+    constructor(
+        readonly code: number,
+        readonly functionName: string,
+        readonly description: string,
+    ) {
+        super(`${functionName} failed: ${description} (err u${code})`);
+        this.name = new.target.name;
+    }
+}
+
+export class UnauthorizedError extends DaoForgeError {
+    constructor(functionName: string) {
+        super(ErrorCode.UNAUTHORIZED, functionName, "the sender is not allowed to perform this action");
+    }
+}
+
+export class InvalidProposalError extends DaoForgeError {
+    constructor(functionName: string) {
+        super(ErrorCode.INVALID_PROPOSAL, functionName, "the proposal is malformed or of an unknown type");
+    }
+}
+
+export class ProposalNotFoundError extends DaoForgeError {
+    constructor(functionName: string) {
+        super(ErrorCode.PROPOSAL_NOT_FOUND, functionName, "no proposal exists with this id");
+    }
+}
+
+export class VotingPeriodEndedError extends DaoForgeError {
+    constructor(functionName: string) {
+        super(ErrorCode.VOTING_PERIOD_ENDED, functionName, "the voting period does not allow this action");
+    }
+}
+
+export class AlreadyVotedError extends DaoForgeError {
+    constructor(functionName: string) {
+        super(ErrorCode.ALREADY_VOTED, functionName, "the sender has already voted on this proposal");
+    }
+}
+
+export class InsufficientTokensError extends DaoForgeError {
+    constructor(functionName: string) {
+        super(ErrorCode.INSUFFICIENT_TOKENS, functionName, "the balance is too low for this action");
+    }
+}
+
+export class ProposalNotActiveError extends DaoForgeError {
+    constructor(functionName: string) {
+        super(ErrorCode.PROPOSAL_NOT_ACTIVE, functionName, "the proposal is no longer active");
+    }
+}
+
+export class ProposalAlreadyExecutedError extends DaoForgeError {
+    constructor(functionName: string) {
+        super(ErrorCode.PROPOSAL_ALREADY_EXECUTED, functionName, "the proposal has already been executed");
+    }
+}
+
+export class ExecutionFailedError extends DaoForgeError {
+    constructor(functionName: string) {
+        super(ErrorCode.EXECUTION_FAILED, functionName, "the proposal cannot be executed");
+    }
+}
+
+export class EmergencyPauseError extends DaoForgeError {
+    constructor(functionName: string) {
+        super(ErrorCode.EMERGENCY_PAUSE, functionName, "the DAO is paused");
+    }
+}
+
+export class InvalidParametersError extends DaoForgeError {
+    constructor(functionName: string) {
+        super(ErrorCode.INVALID_PARAMETERS, functionName, "one or more arguments are invalid");
+    }
+}
+
+export class AllowanceExceededError extends DaoForgeError {
+    constructor(functionName: string) {
+        super(ErrorCode.ALLOWANCE_EXCEEDED, functionName, "the payment exceeds the remaining allowance");
+    }
+}
+
+export class LastAdminError extends DaoForgeError {
+    constructor(functionName: string) {
+        super(ErrorCode.LAST_ADMIN, functionName, "the DAO must keep at least one admin");
+    }
+}
+
+export class SpendingLimitExceededError extends DaoForgeError {
+    constructor(functionName: string) {
+        super(ErrorCode.SPENDING_LIMIT_EXCEEDED, functionName, "the spend exceeds the treasury spending limits");
+    }
+}
+
+export class InsufficientReputationError extends DaoForgeError {
+    constructor(functionName: string) {
+        super(ErrorCode.INSUFFICIENT_REPUTATION, functionName, "the sender's reputation is below the required minimum");
+    }
+}
+
+export class TokensLockedError extends DaoForgeError {
+    constructor(functionName: string) {
+        super(ErrorCode.TOKENS_LOCKED, functionName, "the tokens are locked");
+    }
+}
+
+// Raised for error codes that are not DaoForge constants, e.g. a failed stx-transfer?
+export class UnknownDaoForgeError extends DaoForgeError {
+    constructor(code: number, functionName: string) {
+        super(code, functionName, "unrecognised error code");
+    }
+}
+
+const ERROR_CLASSES: Record<number, new (functionName: string) => DaoForgeError> = {
+    [ErrorCode.UNAUTHORIZED]: UnauthorizedError,
+    [ErrorCode.INVALID_PROPOSAL]: InvalidProposalError,
+    [ErrorCode.PROPOSAL_NOT_FOUND]: ProposalNotFoundError,
+    [ErrorCode.VOTING_PERIOD_ENDED]: VotingPeriodEndedError,
+    [ErrorCode.ALREADY_VOTED]: AlreadyVotedError,
+    [ErrorCode.INSUFFICIENT_TOKENS]: InsufficientTokensError,
+    [ErrorCode.PROPOSAL_NOT_ACTIVE]: ProposalNotActiveError,
+    [ErrorCode.PROPOSAL_ALREADY_EXECUTED]: ProposalAlreadyExecutedError,
+    [ErrorCode.EXECUTION_FAILED]: ExecutionFailedError,
+    [ErrorCode.EMERGENCY_PAUSE]: EmergencyPauseError,
+    [ErrorCode.INVALID_PARAMETERS]: InvalidParametersError,
+    [ErrorCode.ALLOWANCE_EXCEEDED]: AllowanceExceededError,
+    [ErrorCode.LAST_ADMIN]: LastAdminError,
+    [ErrorCode.SPENDING_LIMIT_EXCEEDED]: SpendingLimitExceededError,
+    [ErrorCode.INSUFFICIENT_REPUTATION]: InsufficientReputationError,
+    [ErrorCode.TOKENS_LOCKED]: TokensLockedError,
+};
+
+export function decodeError(code: number, functionName: string): DaoForgeError {
+    const ErrorClass = ERROR_CLASSES[code];
+    return ErrorClass ? new ErrorClass(functionName) : new UnknownDaoForgeError(code, functionName);
+}
+
+// Returns the inner value of an (ok ...) result, throws the typed error for an (err uN) result
+export function unwrapResult(result: string, functionName: string): string {
+    const match = /^\(err u(\d+)\)$/.exec(result);
+    if (match) {
+        throw decodeError(Number(match[1]), functionName);
+    }
+    return result.expectOk();
+}
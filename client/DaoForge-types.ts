@@ -0,0 +1,349 @@
+// Decoded shapes of the values returned by DaoForge-contract
+// Field names mirror the Clarity tuples, converted to camelCase
+
+export type ProposalType =
+    | "treasury"
+    | "parameter"
+    | "member"
+    | "token"
+    | "asset"
+    | "stream"
+    | "extension"
+    | "action"
+    | "text";
+
+// "active" until voting ends and the proposal is finalized, executed or cancelled
+export type ProposalStatus = "active" | "passed" | "defeated" | "no-quorum" | "expired" | "executed" | "cancelled";
+
+export type VoteChoice = "for" | "against" | "abstain";
+
+// How votes are weighed: by tokens, square root of tokens, one per member or reputation score
+export type VotingMode = "token" | "quadratic" | "member" | "reputation";
+
+export type MemberAction = "admit" | "suspend" | "reinstate" | "expel";
+
+// "transfer" pays governance tokens the treasury holds from slashed bonds
+export type TokenAction = "mint" | "burn" | "transfer" | "vest";
+
+// "cap" sets the asset's period spend cap to the proposal amount
+export type AssetAction = "add" | "remove" | "cap";
+
+export type ExtensionAction = "add" | "remove";
+
+// "stream" accrues every block, "budget" releases each period up front
+export type StreamKind = "stream" | "budget";
+
+export type ParameterName =
+    | "voting-period"
+    | "quorum-percentage"
+    | "execution-delay"
+    | "max-spend-percentage"
+    | "period-spend-cap"
+    | "spend-period"
+    | "large-spend-percent"
+    | "large-spend-quorum"
+    | "min-reputation"
+    | "optimistic-period"
+    | "veto-threshold"
+    | "optimistic-min-rep"
+    | "stx-bond"
+    | "token-bond";
+
+export type Role = "admin" | "moderator" | "treasurer";
+
+export type PauseScope = "all" | "voting" | "treasury" | "tokens";
+
+export interface DaoInfo {
+    name: string;
+    description: string;
+    totalSupply: number;
+    treasuryBalance: number;
+    proposalCount: number;
+    initialized: boolean;
+    emergencyPause: boolean; // true while any scope is paused
+}
+
+export interface Member {
+    joinedAt: number;
+    votingPower: number; // token balance plus the current lock boost
+    proposalsCreated: number;
+    votesCast: number;
+    reputationScore: number; // after any decay owed for inactivity
+    active: boolean;
+}
+
+export interface MemberStatus {
+    status: "suspended" | "expelled";
+    proposalId: number;
+    changedAt: number;
+}
+
+export interface Proposal {
+    proposer: string;
+    title: string;
+    description: string;
+    proposalType: ProposalType;
+    target: string | null;
+    amount: number;
+    createdAt: number;
+    votingEnd: number;
+    executionDelayEnd: number;
+    status: ProposalStatus;
+    votesFor: number;
+    votesAgainst: number;
+    votesAbstain: number;
+    totalVotes: number; // tokens behind every vote, whatever the voting mode
+    quorumRequired: number;
+    approvalThreshold: number; // percentage of for/against votes needed to pass
+    votingMode: VotingMode;
+    executedAt: number | null;
+}
+
+// Optimistic proposals have no quorum and pass unless more than vetoRequired tokens vote against.
+// tokensAgainst counts raw tokens, without the lock boosts included in votesAgainst.
+export interface OptimisticProposal {
+    vetoRequired: number;
+    tokensAgainst: number;
+}
+
+export interface OptimisticSettings {
+    optimisticPeriod: number;
+    vetoThreshold: number; // percentage of supply
+    minReputation: number; // members with a role need none
+}
+
+// Refunded once the proposal reaches quorum, slashed without quorum or on moderation:
+// slashed STX and governance tokens both go to the treasury
+export interface ProposalBond {
+    stx: number;
+    tokens: number;
+    status: "locked" | "refunded" | "slashed";
+}
+
+export interface BondSettings {
+    stxBond: number;
+    tokenBond: number;
+}
+
+export interface ProposalCancellation {
+    cancelledBy: string;
+    reason: string;
+    cancelledAt: number;
+}
+
+export interface Vote {
+    choice: VoteChoice; // a delegated vote follows the delegate's current choice
+    votingPower: number; // weight under the proposal's voting mode
+    tokens: number;
+    votedAt: number;
+    delegate: string | null;
+    changes: number;
+}
+
+// Locked tokens stay in the wallet but cannot be moved until withdrawn after `end`
+export interface TokenLock {
+    amount: number;
+    lockedAt: number;
+    end: number;
+}
+
+export interface Delegation {
+    delegate: string;
+    delegatedAt: number;
+}
+
+export interface TreasuryTransaction {
+    transactionType: string;
+    amount: number;
+    from: string | null;
+    to: string | null;
+    proposalId: number | null;
+    asset: string | null; // SIP-010 contract, the DAO contract for governance tokens, null for STX
+    timestamp: number;
+    blockHeight: number;
+}
+
+export interface Payout {
+    recipient: string;
+    amount: number;
+}
+
+export interface WhitelistedAsset {
+    addedAt: number;
+    proposalId: number;
+}
+
+export interface AllowedExtension {
+    addedAt: number;
+    proposalId: number;
+}
+
+export interface ProposalResult {
+    status: ProposalStatus | "not-found";
+    passed: boolean;
+    hasQuorum: boolean;
+    votesFor: number;
+    votesAgainst: number;
+    votesAbstain: number;
+    totalVotes: number;
+    quorumRequired: number;
+    approvalThreshold: number;
+}
+
+export interface ProposalParameter {
+    parameter: ParameterName;
+    newValue: number;
+}
+
+export interface ProposalMemberAction {
+    action: MemberAction;
+    tokenAmount: number;
+}
+
+export interface ProposalTokenAction {
+    action: TokenAction;
+    amount: number;
+    cliff: number;
+    duration: number;
+}
+
+export interface VestingSchedule {
+    total: number;
+    claimed: number;
+    start: number;
+    cliff: number;
+    duration: number;
+    proposalId: number;
+}
+
+export interface VestingBalance {
+    vested: number;
+    unvested: number;
+    claimed: number;
+    claimable: number;
+}
+
+export interface StreamTerms {
+    kind: StreamKind;
+    rate: number;
+    period: number;
+    start: number;
+    end: number;
+}
+
+export interface Stream extends StreamTerms {
+    recipient: string;
+    total: number;
+    claimed: number;
+    proposalId: number;
+    cancelledAt: number | null;
+}
+
+export interface StreamBalance {
+    accrued: number;
+    unaccrued: number;
+    claimed: number;
+    claimable: number;
+}
+
+// A value of 0 disables the percentage limits and the period cap.
+// The cap covers STX paid out over the trailing spendPeriod blocks; SIP-010 assets have their own caps.
+export interface SpendingLimits {
+    maxSpendPercentage: number;
+    periodSpendCap: number;
+    spendPeriod: number;
+    largeSpendPercent: number;
+    largeSpendQuorum: number;
+}
+
+export interface TypeThresholds {
+    quorumPercentage: number;
+    approvalThreshold: number;
+}
+
+export interface TypeThresholdUpdate extends TypeThresholds {
+    proposalId: number;
+    updatedAt: number;
+}
+
+export interface ThresholdChange extends TypeThresholds {
+    proposalType: ProposalType;
+}
+
+export interface TypeVotingMode {
+    votingMode: VotingMode;
+    proposalId: number;
+    updatedAt: number;
+}
+
+export interface VotingModeChange {
+    proposalType: ProposalType;
+    votingMode: VotingMode;
+}
+
+export type ReputationReason = "vote" | "executed" | "defeated" | "no-quorum" | "cancelled" | "decay";
+
+export interface ReputationChange {
+    oldScore: number;
+    newScore: number;
+    reason: ReputationReason;
+    proposalId: number | null;
+    changedAt: number;
+}
+
+export interface ReputationStanding {
+    member: string;
+    reputation: number; // after decay
+    lastActive: number | null; // null for non-members
+    changeCount: number;
+}
+
+export interface ReputationSettings {
+    minProposalReputation: number;
+    maxReputation: number;
+    voteReward: number;
+    executionReward: number;
+    defeatPenalty: number;
+    cancellationPenalty: number;
+    decay: number; // lost per full decay period without voting or proposing
+    decayPeriod: number;
+}
+
+export interface ParameterChange {
+    parameter: ParameterName;
+    oldValue: number;
+    newValue: number;
+    proposalId: number;
+    changedAt: number;
+}
+
+export interface RoleAssignment {
+    role: Role;
+    grantedBy: string;
+    grantedAt: number;
+    active: boolean;
+}
+
+export interface RoleChange {
+    account: string;
+    role: Role;
+    action: "grant" | "revoke";
+    changedBy: string;
+    changedAt: number;
+}
+
+export interface Pause {
+    reason: string;
+    pausedBy: string;
+    pausedAt: number;
+    expiresAt: number | null;
+}
+
+export interface PauseEvent {
+    action: "pause" | "resume";
+    scope: PauseScope;
+    reason: string;
+    account: string;
+    blockHeight: number;
+    expiresAt: number | null;
+}
@@ -1,19 +1,17 @@
 
-import { Clarinet, Tx, Chain, Account, types } from 'https://deno.land/x/clarinet@v0.14.0/index.ts';
+import { Clarinet, Tx, Chain, Account } from 'https://deno.land/x/clarinet@v0.14.0/index.ts';
 import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import { CONTRACT_NAME, DaoForgeClient, ErrorCode } from '../client/DaoForge-client.ts';
+import type { PauseScope, Role } from '../client/DaoForge-client.ts';
 
 Clarinet.test({
     name: "Ensure DAO can be initialized properly by contract owner",
     async fn(chain: Chain, accounts: Map<string, Account>) {
         let deployer = accounts.get("deployer")!;
-        let wallet1 = accounts.get("wallet_1")!;
+        let dao = new DaoForgeClient(chain, deployer);
         
         let block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "initialize-dao", [
-                types.utf8("Test DAO"),
-                types.utf8("A test decentralized autonomous organization"),
-                types.uint(10000)
-            ], deployer.address)
+            dao.initializeDao("Test DAO", "A test decentralized autonomous organization", 10000, deployer.address)
         ]);
         
         block.receipts[0].result.expectOk().expectBool(true);
@@ -21,24 +19,21 @@ Clarinet.test({
         assertEquals(block.height, 2);
         
         // Verify DAO info was set correctly
-        let daoInfo = chain.callReadOnlyFn("DaoForge-contract", "get-dao-info", [], deployer.address);
-        let daoData = daoInfo.result.expectTuple() as any;
-        assertEquals(daoData["name"], types.utf8("Test DAO"));
-        assertEquals(daoData["description"], types.utf8("A test decentralized autonomous organization"));
-        assertEquals(daoData["total-supply"], types.uint(10000));
-        assertEquals(daoData["initialized"], types.bool(true));
-        assertEquals(daoData["emergency-pause"], types.bool(false));
+        let daoInfo = dao.getDaoInfo();
+        assertEquals(daoInfo.name, "Test DAO");
+        assertEquals(daoInfo.description, "A test decentralized autonomous organization");
+        assertEquals(daoInfo.totalSupply, 10000);
+        assertEquals(daoInfo.initialized, true);
+        assertEquals(daoInfo.emergencyPause, false);
         
         // Verify deployer got initial tokens
-        let balance = chain.callReadOnlyFn("DaoForge-contract", "get-token-balance", [types.principal(deployer.address)], deployer.address);
-        balance.result.expectUint(10000);
+        assertEquals(dao.getTokenBalance(deployer.address), 10000);
         
         // Verify deployer is registered as member
-        let memberInfo = chain.callReadOnlyFn("DaoForge-contract", "get-member-info", [types.principal(deployer.address)], deployer.address);
-        let memberData = memberInfo.result.expectSome().expectTuple() as any;
-        assertEquals(memberData["voting-power"], types.uint(10000));
-        assertEquals(memberData["active"], types.bool(true));
-        assertEquals(memberData["reputation-score"], types.uint(100));
+        let member = dao.getMemberInfo(deployer.address)!;
+        assertEquals(member.votingPower, 10000);
+        assertEquals(member.active, true);
+        assertEquals(member.reputationScore, 100);
     },
 });
 
@@ -47,16 +42,13 @@ Clarinet.test({
     async fn(chain: Chain, accounts: Map<string, Account>) {
         let deployer = accounts.get("deployer")!;
         let wallet1 = accounts.get("wallet_1")!;
+        let dao = new DaoForgeClient(chain, deployer);
         
         let block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "initialize-dao", [
-                types.utf8("Unauthorized DAO"),
-                types.utf8("Should fail"),
-                types.uint(5000)
-            ], wallet1.address)
+            dao.initializeDao("Unauthorized DAO", "Should fail", 5000, wallet1.address)
         ]);
         
-        block.receipts[0].result.expectErr().expectUint(100); // ERR-UNAUTHORIZED
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.UNAUTHORIZED);
         assertEquals(block.receipts.length, 1);
     },
 });
@@ -65,26 +57,19 @@ Clarinet.test({
     name: "Ensure DAO cannot be initialized twice",
     async fn(chain: Chain, accounts: Map<string, Account>) {
         let deployer = accounts.get("deployer")!;
+        let dao = new DaoForgeClient(chain, deployer);
         
         // First initialization should succeed
         let block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "initialize-dao", [
-                types.utf8("First DAO"),
-                types.utf8("First initialization"),
-                types.uint(8000)
-            ], deployer.address)
+            dao.initializeDao("First DAO", "First initialization", 8000, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         // Second initialization should fail
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "initialize-dao", [
-                types.utf8("Second DAO"),
-                types.utf8("Should fail"),
-                types.uint(5000)
-            ], deployer.address)
+            dao.initializeDao("Second DAO", "Should fail", 5000, deployer.address)
         ]);
-        block.receipts[0].result.expectErr().expectUint(100); // ERR-UNAUTHORIZED
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.UNAUTHORIZED);
     },
 });
 
@@ -92,17 +77,14 @@ Clarinet.test({
     name: "Ensure initialization fails with invalid parameters",
     async fn(chain: Chain, accounts: Map<string, Account>) {
         let deployer = accounts.get("deployer")!;
+        let dao = new DaoForgeClient(chain, deployer);
         
         // Try to initialize with zero supply
         let block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "initialize-dao", [
-                types.utf8("Invalid DAO"),
-                types.utf8("Zero supply test"),
-                types.uint(0)
-            ], deployer.address)
+            dao.initializeDao("Invalid DAO", "Zero supply test", 0, deployer.address)
         ]);
         
-        block.receipts[0].result.expectErr().expectUint(110); // ERR-INVALID-PARAMETERS
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
         assertEquals(block.receipts.length, 1);
     },
 });
@@ -113,21 +95,18 @@ Clarinet.test({
         let deployer = accounts.get("deployer")!;
         let wallet1 = accounts.get("wallet_1")!;
         let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
         
         // Initialize DAO first
         let block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "initialize-dao", [
-                types.utf8("Membership DAO"),
-                types.utf8("Testing membership functionality"),
-                types.uint(15000)
-            ], deployer.address)
+            dao.initializeDao("Membership DAO", "Testing membership functionality", 15000, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         // Members join DAO
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "join-dao", [], wallet1.address),
-            Tx.contractCall("DaoForge-contract", "join-dao", [], wallet2.address)
+            dao.joinDao(wallet1.address),
+            dao.joinDao(wallet2.address)
         ]);
         
         assertEquals(block.receipts.length, 2);
@@ -135,31 +114,31 @@ Clarinet.test({
         block.receipts[1].result.expectOk().expectBool(true);
         
         // Verify members are registered with correct initial values
-        let member1Info = chain.callReadOnlyFn("DaoForge-contract", "get-member-info", [types.principal(wallet1.address)], deployer.address);
-        let member1Data = member1Info.result.expectSome().expectTuple() as any;
-        assertEquals(member1Data["voting-power"], types.uint(0));
-        assertEquals(member1Data["active"], types.bool(true));
-        assertEquals(member1Data["reputation-score"], types.uint(50));
-        assertEquals(member1Data["proposals-created"], types.uint(0));
-        assertEquals(member1Data["votes-cast"], types.uint(0));
-        
-        let member2Info = chain.callReadOnlyFn("DaoForge-contract", "get-member-info", [types.principal(wallet2.address)], deployer.address);
-        let member2Data = member2Info.result.expectSome().expectTuple() as any;
-        assertEquals(member2Data["voting-power"], types.uint(0));
-        assertEquals(member2Data["active"], types.bool(true));
+        let member1 = dao.getMemberInfo(wallet1.address)!;
+        assertEquals(member1.votingPower, 0);
+        assertEquals(member1.active, true);
+        assertEquals(member1.reputationScore, 50);
+        assertEquals(member1.proposalsCreated, 0);
+        assertEquals(member1.votesCast, 0);
+        
+        let member2 = dao.getMemberInfo(wallet2.address)!;
+        assertEquals(member2.votingPower, 0);
+        assertEquals(member2.active, true);
     },
 });
 
 Clarinet.test({
     name: "Ensure members cannot join uninitialized DAO",
     async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
         let wallet1 = accounts.get("wallet_1")!;
+        let dao = new DaoForgeClient(chain, deployer);
         
         let block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "join-dao", [], wallet1.address)
+            dao.joinDao(wallet1.address)
         ]);
         
-        block.receipts[0].result.expectErr().expectUint(100); // ERR-UNAUTHORIZED
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.UNAUTHORIZED);
         assertEquals(block.receipts.length, 1);
     },
 });
@@ -169,28 +148,92 @@ Clarinet.test({
     async fn(chain: Chain, accounts: Map<string, Account>) {
         let deployer = accounts.get("deployer")!;
         let wallet1 = accounts.get("wallet_1")!;
+        let dao = new DaoForgeClient(chain, deployer);
         
         // Initialize DAO
         let block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "initialize-dao", [
-                types.utf8("Double Join Test DAO"),
-                types.utf8("Testing duplicate membership prevention"),
-                types.uint(12000)
-            ], deployer.address)
+            dao.initializeDao("Double Join Test DAO", "Testing duplicate membership prevention", 12000, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         // First join should succeed
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "join-dao", [], wallet1.address)
+            dao.joinDao(wallet1.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         // Second join should fail
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "join-dao", [], wallet1.address)
+            dao.joinDao(wallet1.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.UNAUTHORIZED);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure members can leave the DAO and join again",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let wallet3 = accounts.get("wallet_3")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        
+        let block = chain.mineBlock([
+            dao.initializeDao("Leave Test DAO", "Testing member exits", 10000, deployer.address),
+            dao.transferTokens(wallet1.address, 1000, deployer.address),
+            dao.transferTokens(wallet2.address, 500, deployer.address),
+            dao.grantRole(wallet1.address, "admin", deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        let joinedAt = dao.getMemberInfo(wallet1.address)!.joinedAt;
+        
+        block = chain.mineBlock([
+            dao.delegateVotes(deployer.address, wallet1.address),
+            dao.delegateVotes(wallet1.address, wallet2.address),
+            dao.leaveDao(wallet3.address),
+            dao.leaveDao(wallet1.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[1].result.expectOk().expectBool(true);
+        block.receipts[2].result.expectErr().expectUint(ErrorCode.UNAUTHORIZED);
+        block.receipts[3].result.expectOk().expectBool(true);
+        
+        // Leaving keeps the tokens but drops membership rights, the role and delegations either way
+        assertEquals(dao.getMemberInfo(wallet1.address)!.active, false);
+        assertEquals(dao.getBalance(wallet1.address), 1000);
+        assertEquals(dao.getDelegate(wallet1.address), null);
+        assertEquals(dao.getDelegators(deployer.address), []);
+        assertEquals(dao.getDelegate(wallet2.address), null);
+        assertEquals(dao.getDelegators(wallet1.address), []);
+        assertEquals(dao.getRole(wallet1.address)!.active, false);
+        assertEquals(dao.getAdminCount(), 1);
+        block = chain.mineBlock([
+            dao.transferTokens(deployer.address, 100, wallet1.address),
+            dao.transfer(100, wallet1.address, wallet3.address, null, wallet1.address),
+            dao.pauseOperations("all", "Left the DAO", 0, wallet1.address),
+            dao.leaveDao(wallet1.address),
+            dao.leaveDao(deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[1].result.expectOk().expectBool(true);
+        block.receipts[2].result.expectErr().expectUint(ErrorCode.UNAUTHORIZED);
+        block.receipts[3].result.expectErr().expectUint(ErrorCode.UNAUTHORIZED);
+        block.receipts[4].result.expectErr().expectUint(ErrorCode.LAST_ADMIN);
+        assertEquals(dao.getBalance(wallet1.address), 800);
+        assertEquals(dao.getMemberInfo(deployer.address)!.active, true);
+        
+        // Rejoining restores the original entry
+        block = chain.mineBlock([
+            dao.joinDao(wallet1.address),
+            dao.joinDao(wallet1.address)
         ]);
-        block.receipts[0].result.expectErr().expectUint(100); // ERR-UNAUTHORIZED
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.UNAUTHORIZED);
+        assertEquals(dao.getMemberInfo(wallet1.address)!.active, true);
+        assertEquals(dao.getMemberInfo(wallet1.address)!.joinedAt, joinedAt);
+        assertEquals(dao.getMemberInfo(wallet1.address)!.votingPower, 800);
+        assertEquals(dao.getRole(wallet1.address)!.active, false);
     },
 });
 
@@ -200,54 +243,39 @@ Clarinet.test({
         let deployer = accounts.get("deployer")!;
         let wallet1 = accounts.get("wallet_1")!;
         let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
         
         // Initialize DAO and add members
         let block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "initialize-dao", [
-                types.utf8("Token Transfer DAO"),
-                types.utf8("Testing token transfer functionality"),
-                types.uint(20000)
-            ], deployer.address)
+            dao.initializeDao("Token Transfer DAO", "Testing token transfer functionality", 20000, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "join-dao", [], wallet1.address),
-            Tx.contractCall("DaoForge-contract", "join-dao", [], wallet2.address)
+            dao.joinDao(wallet1.address),
+            dao.joinDao(wallet2.address)
         ]);
         assertEquals(block.receipts.length, 2);
         
         // Transfer tokens from deployer to wallet1
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "transfer-tokens", [
-                types.principal(wallet1.address),
-                types.uint(5000)
-            ], deployer.address)
+            dao.transferTokens(wallet1.address, 5000, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         // Verify balances updated
-        let deployerBalance = chain.callReadOnlyFn("DaoForge-contract", "get-token-balance", [types.principal(deployer.address)], deployer.address);
-        deployerBalance.result.expectUint(15000);
-        
-        let wallet1Balance = chain.callReadOnlyFn("DaoForge-contract", "get-token-balance", [types.principal(wallet1.address)], deployer.address);
-        wallet1Balance.result.expectUint(5000);
+        assertEquals(dao.getTokenBalance(deployer.address), 15000);
+        assertEquals(dao.getTokenBalance(wallet1.address), 5000);
         
         // Transfer from wallet1 to wallet2
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "transfer-tokens", [
-                types.principal(wallet2.address),
-                types.uint(2000)
-            ], wallet1.address)
+            dao.transferTokens(wallet2.address, 2000, wallet1.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         // Verify final balances
-        wallet1Balance = chain.callReadOnlyFn("DaoForge-contract", "get-token-balance", [types.principal(wallet1.address)], deployer.address);
-        wallet1Balance.result.expectUint(3000);
-        
-        let wallet2Balance = chain.callReadOnlyFn("DaoForge-contract", "get-token-balance", [types.principal(wallet2.address)], deployer.address);
-        wallet2Balance.result.expectUint(2000);
+        assertEquals(dao.getTokenBalance(wallet1.address), 3000);
+        assertEquals(dao.getTokenBalance(wallet2.address), 2000);
     },
 });
 
@@ -256,25 +284,19 @@ Clarinet.test({
     async fn(chain: Chain, accounts: Map<string, Account>) {
         let deployer = accounts.get("deployer")!;
         let wallet1 = accounts.get("wallet_1")!;
+        let dao = new DaoForgeClient(chain, deployer);
         
         // Initialize DAO
         let block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "initialize-dao", [
-                types.utf8("Insufficient Balance DAO"),
-                types.utf8("Testing insufficient balance scenarios"),
-                types.uint(1000)
-            ], deployer.address)
+            dao.initializeDao("Insufficient Balance DAO", "Testing insufficient balance scenarios", 1000, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         // Try to transfer more tokens than available
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "transfer-tokens", [
-                types.principal(wallet1.address),
-                types.uint(2000)
-            ], deployer.address)
+            dao.transferTokens(wallet1.address, 2000, deployer.address)
         ]);
-        block.receipts[0].result.expectErr().expectUint(105); // ERR-INSUFFICIENT-TOKENS
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.INSUFFICIENT_TOKENS);
     },
 });
 
@@ -283,14 +305,12 @@ Clarinet.test({
     async fn(chain: Chain, accounts: Map<string, Account>) {
         let deployer = accounts.get("deployer")!;
         let wallet1 = accounts.get("wallet_1")!;
+        let dao = new DaoForgeClient(chain, deployer);
         
         let block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "transfer-tokens", [
-                types.principal(wallet1.address),
-                types.uint(100)
-            ], deployer.address)
+            dao.transferTokens(wallet1.address, 100, deployer.address)
         ]);
-        block.receipts[0].result.expectErr().expectUint(100); // ERR-UNAUTHORIZED
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.UNAUTHORIZED);
     },
 });
 
@@ -300,25 +320,19 @@ Clarinet.test({
         let deployer = accounts.get("deployer")!;
         let wallet1 = accounts.get("wallet_1")!;
         let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
         
         // Initialize DAO
         let block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "initialize-dao", [
-                types.utf8("Non-Member Transfer DAO"),
-                types.utf8("Testing non-member transfer prevention"),
-                types.uint(5000)
-            ], deployer.address)
+            dao.initializeDao("Non-Member Transfer DAO", "Testing non-member transfer prevention", 5000, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         // Try transfer from non-member
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "transfer-tokens", [
-                types.principal(wallet2.address),
-                types.uint(100)
-            ], wallet1.address)
+            dao.transferTokens(wallet2.address, 100, wallet1.address)
         ]);
-        block.receipts[0].result.expectErr().expectUint(100); // ERR-UNAUTHORIZED
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.UNAUTHORIZED);
     },
 });
 
@@ -327,52 +341,47 @@ Clarinet.test({
     async fn(chain: Chain, accounts: Map<string, Account>) {
         let deployer = accounts.get("deployer")!;
         let wallet1 = accounts.get("wallet_1")!;
+        let dao = new DaoForgeClient(chain, deployer);
         
         // Initialize DAO and setup member with tokens
         let block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "initialize-dao", [
-                types.utf8("Proposal Test DAO"),
-                types.utf8("Testing proposal creation functionality"),
-                types.uint(25000)
-            ], deployer.address)
+            dao.initializeDao("Proposal Test DAO", "Testing proposal creation functionality", 25000, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "join-dao", [], wallet1.address)
+            dao.joinDao(wallet1.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         // Transfer tokens to wallet1 to meet minimum threshold
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "transfer-tokens", [
-                types.principal(wallet1.address),
-                types.uint(100)
-            ], deployer.address)
+            dao.transferTokens(wallet1.address, 100, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         // Create proposal
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "create-proposal", [
-                types.utf8("Treasury Funding Proposal"),
-                types.utf8("Proposal to fund community development with 5000 tokens from treasury"),
-                types.ascii("treasury"),
-                types.some(types.principal(wallet1.address)),
-                types.uint(5000)
-            ], wallet1.address)
+            dao.createProposal(
+                "Treasury Funding Proposal",
+                "Proposal to fund community development with 5000 tokens from treasury",
+                "treasury",
+                wallet1.address,
+                5000,
+                wallet1.address
+            )
         ]);
         block.receipts[0].result.expectOk().expectUint(1);
         
         // Verify proposal was created correctly
-        let proposal = chain.callReadOnlyFn("DaoForge-contract", "get-proposal", [types.uint(1)], deployer.address);
-        let proposalData = proposal.result.expectSome().expectTuple() as any;
-        assertEquals(proposalData["title"], types.utf8("Treasury Funding Proposal"));
-        assertEquals(proposalData["proposal-type"], types.ascii("treasury"));
-        assertEquals(proposalData["amount"], types.uint(5000));
-        assertEquals(proposalData["status"], types.ascii("active"));
-        assertEquals(proposalData["votes-for"], types.uint(0));
-        assertEquals(proposalData["votes-against"], types.uint(0));
+        let proposal = dao.getProposal(1)!;
+        assertEquals(proposal.title, "Treasury Funding Proposal");
+        assertEquals(proposal.proposalType, "treasury");
+        assertEquals(proposal.target, wallet1.address);
+        assertEquals(proposal.amount, 5000);
+        assertEquals(proposal.status, "active");
+        assertEquals(proposal.votesFor, 0);
+        assertEquals(proposal.votesAgainst, 0);
     },
 });
 
@@ -381,33 +390,24 @@ Clarinet.test({
     async fn(chain: Chain, accounts: Map<string, Account>) {
         let deployer = accounts.get("deployer")!;
         let wallet1 = accounts.get("wallet_1")!;
+        let dao = new DaoForgeClient(chain, deployer);
         
         // Initialize DAO and add member
         let block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "initialize-dao", [
-                types.utf8("Low Token DAO"),
-                types.utf8("Testing minimum token requirements"),
-                types.uint(15000)
-            ], deployer.address)
+            dao.initializeDao("Low Token DAO", "Testing minimum token requirements", 15000, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "join-dao", [], wallet1.address)
+            dao.joinDao(wallet1.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         // Try to create proposal without sufficient tokens (need at least 10)
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "create-proposal", [
-                types.utf8("Insufficient Token Proposal"),
-                types.utf8("Should fail due to insufficient tokens"),
-                types.ascii("text"),
-                types.none(),
-                types.uint(0)
-            ], wallet1.address)
+            dao.createProposal("Insufficient Token Proposal", "Should fail due to insufficient tokens", "text", null, 0, wallet1.address)
         ]);
-        block.receipts[0].result.expectErr().expectUint(105); // ERR-INSUFFICIENT-TOKENS
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.INSUFFICIENT_TOKENS);
     },
 });
 
@@ -415,28 +415,19 @@ Clarinet.test({
     name: "Ensure proposal creation fails with invalid proposal type",
     async fn(chain: Chain, accounts: Map<string, Account>) {
         let deployer = accounts.get("deployer")!;
+        let dao = new DaoForgeClient(chain, deployer);
         
         // Initialize DAO
         let block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "initialize-dao", [
-                types.utf8("Invalid Type DAO"),
-                types.utf8("Testing invalid proposal type validation"),
-                types.uint(20000)
-            ], deployer.address)
+            dao.initializeDao("Invalid Type DAO", "Testing invalid proposal type validation", 20000, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         // Try to create proposal with invalid type
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "create-proposal", [
-                types.utf8("Invalid Proposal"),
-                types.utf8("Testing invalid proposal type"),
-                types.ascii("invalid-type"),
-                types.none(),
-                types.uint(0)
-            ], deployer.address)
+            dao.createProposal("Invalid Proposal", "Testing invalid proposal type", "invalid-type", null, 0, deployer.address)
         ]);
-        block.receipts[0].result.expectErr().expectUint(101); // ERR-INVALID-PROPOSAL
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.INVALID_PROPOSAL);
     },
 });
 
@@ -444,17 +435,12 @@ Clarinet.test({
     name: "Ensure proposal creation fails from uninitialized DAO",
     async fn(chain: Chain, accounts: Map<string, Account>) {
         let deployer = accounts.get("deployer")!;
+        let dao = new DaoForgeClient(chain, deployer);
         
         let block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "create-proposal", [
-                types.utf8("Uninitialized Proposal"),
-                types.utf8("Should fail"),
-                types.ascii("text"),
-                types.none(),
-                types.uint(0)
-            ], deployer.address)
+            dao.createProposal("Uninitialized Proposal", "Should fail", "text", null, 0, deployer.address)
         ]);
-        block.receipts[0].result.expectErr().expectUint(100); // ERR-UNAUTHORIZED
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.UNAUTHORIZED);
     },
 });
 
@@ -462,28 +448,19 @@ Clarinet.test({
     name: "Ensure proposal creation fails with empty title",
     async fn(chain: Chain, accounts: Map<string, Account>) {
         let deployer = accounts.get("deployer")!;
+        let dao = new DaoForgeClient(chain, deployer);
         
         // Initialize DAO
         let block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "initialize-dao", [
-                types.utf8("Empty Title DAO"),
-                types.utf8("Testing empty title validation"),
-                types.uint(18000)
-            ], deployer.address)
+            dao.initializeDao("Empty Title DAO", "Testing empty title validation", 18000, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         // Try to create proposal with empty title
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "create-proposal", [
-                types.utf8(""),
-                types.utf8("Valid description but empty title"),
-                types.ascii("text"),
-                types.none(),
-                types.uint(0)
-            ], deployer.address)
+            dao.createProposal("", "Valid description but empty title", "text", null, 0, deployer.address)
         ]);
-        block.receipts[0].result.expectErr().expectUint(110); // ERR-INVALID-PARAMETERS
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
     },
 });
 
@@ -493,66 +470,33 @@ Clarinet.test({
         let deployer = accounts.get("deployer")!;
         let wallet1 = accounts.get("wallet_1")!;
         let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
         
         // Initialize DAO and setup members
         let block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "initialize-dao", [
-                types.utf8("Multi-Type Proposal DAO"),
-                types.utf8("Testing different proposal types"),
-                types.uint(30000)
-            ], deployer.address)
+            dao.initializeDao("Multi-Type Proposal DAO", "Testing different proposal types", 30000, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "join-dao", [], wallet1.address),
-            Tx.contractCall("DaoForge-contract", "join-dao", [], wallet2.address)
+            dao.joinDao(wallet1.address),
+            dao.joinDao(wallet2.address)
         ]);
         assertEquals(block.receipts.length, 2);
         
         // Give tokens to members
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "transfer-tokens", [
-                types.principal(wallet1.address),
-                types.uint(100)
-            ], deployer.address),
-            Tx.contractCall("DaoForge-contract", "transfer-tokens", [
-                types.principal(wallet2.address),
-                types.uint(50)
-            ], deployer.address)
+            dao.transferTokens(wallet1.address, 100, deployer.address),
+            dao.transferTokens(wallet2.address, 50, deployer.address)
         ]);
         assertEquals(block.receipts.length, 2);
         
         // Create different types of proposals
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "create-proposal", [
-                types.utf8("Treasury Proposal"),
-                types.utf8("Transfer funds from treasury"),
-                types.ascii("treasury"),
-                types.some(types.principal(wallet1.address)),
-                types.uint(1000)
-            ], wallet1.address),
-            Tx.contractCall("DaoForge-contract", "create-proposal", [
-                types.utf8("Parameter Change"),
-                types.utf8("Change DAO parameters"),
-                types.ascii("parameter"),
-                types.none(),
-                types.uint(0)
-            ], wallet2.address),
-            Tx.contractCall("DaoForge-contract", "create-proposal", [
-                types.utf8("Text Proposal"),
-                types.utf8("Discussion proposal without execution"),
-                types.ascii("text"),
-                types.none(),
-                types.uint(0)
-            ], deployer.address),
-            Tx.contractCall("DaoForge-contract", "create-proposal", [
-                types.utf8("Member Management"),
-                types.utf8("Proposal for member changes"),
-                types.ascii("member"),
-                types.some(types.principal(wallet1.address)),
-                types.uint(0)
-            ], deployer.address)
+            dao.createProposal("Treasury Proposal", "Transfer funds from treasury", "treasury", wallet1.address, 1000, wallet1.address),
+            dao.createParameterProposal("Parameter Change", "Change DAO parameters", "quorum-percentage", 30, wallet2.address),
+            dao.createProposal("Text Proposal", "Discussion proposal without execution", "text", null, 0, deployer.address),
+            dao.createMemberProposal("Member Management", "Proposal for member changes", "suspend", wallet1.address, 0, deployer.address)
         ]);
         
         assertEquals(block.receipts.length, 4);
@@ -562,21 +506,10 @@ Clarinet.test({
         block.receipts[3].result.expectOk().expectUint(4);
         
         // Verify proposals were created with correct types
-        let treasuryProposal = chain.callReadOnlyFn("DaoForge-contract", "get-proposal", [types.uint(1)], deployer.address);
-        let treasuryData = treasuryProposal.result.expectSome().expectTuple() as any;
-        assertEquals(treasuryData["proposal-type"], types.ascii("treasury"));
-        
-        let parameterProposal = chain.callReadOnlyFn("DaoForge-contract", "get-proposal", [types.uint(2)], deployer.address);
-        let parameterData = parameterProposal.result.expectSome().expectTuple() as any;
-        assertEquals(parameterData["proposal-type"], types.ascii("parameter"));
-        
-        let textProposal = chain.callReadOnlyFn("DaoForge-contract", "get-proposal", [types.uint(3)], deployer.address);
-        let textData = textProposal.result.expectSome().expectTuple() as any;
-        assertEquals(textData["proposal-type"], types.ascii("text"));
-        
-        let memberProposal = chain.callReadOnlyFn("DaoForge-contract", "get-proposal", [types.uint(4)], deployer.address);
-        let memberData = memberProposal.result.expectSome().expectTuple() as any;
-        assertEquals(memberData["proposal-type"], types.ascii("member"));
+        assertEquals(dao.getProposal(1)!.proposalType, "treasury");
+        assertEquals(dao.getProposal(2)!.proposalType, "parameter");
+        assertEquals(dao.getProposal(3)!.proposalType, "text");
+        assertEquals(dao.getProposal(4)!.proposalType, "member");
     },
 });
 
@@ -584,55 +517,34 @@ Clarinet.test({
     name: "Ensure proposal counter increments correctly",
     async fn(chain: Chain, accounts: Map<string, Account>) {
         let deployer = accounts.get("deployer")!;
+        let dao = new DaoForgeClient(chain, deployer);
         
         // Initialize DAO
         let block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "initialize-dao", [
-                types.utf8("Counter Test DAO"),
-                types.utf8("Testing proposal counter functionality"),
-                types.uint(22000)
-            ], deployer.address)
+            dao.initializeDao("Counter Test DAO", "Testing proposal counter functionality", 22000, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         // Check initial proposal count
-        let initialInfo = chain.callReadOnlyFn("DaoForge-contract", "get-dao-info", [], deployer.address);
-        let initialData = initialInfo.result.expectTuple() as any;
-        assertEquals(initialData["proposal-count"], types.uint(0));
+        assertEquals(dao.getDaoInfo().proposalCount, 0);
         
         // Create first proposal
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "create-proposal", [
-                types.utf8("First Proposal"),
-                types.utf8("Testing counter increment"),
-                types.ascii("text"),
-                types.none(),
-                types.uint(0)
-            ], deployer.address)
+            dao.createProposal("First Proposal", "Testing counter increment", "text", null, 0, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectUint(1);
         
         // Check proposal count after first proposal
-        let afterFirstInfo = chain.callReadOnlyFn("DaoForge-contract", "get-dao-info", [], deployer.address);
-        let afterFirstData = afterFirstInfo.result.expectTuple() as any;
-        assertEquals(afterFirstData["proposal-count"], types.uint(1));
+        assertEquals(dao.getDaoInfo().proposalCount, 1);
         
         // Create second proposal
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "create-proposal", [
-                types.utf8("Second Proposal"),
-                types.utf8("Testing counter increment again"),
-                types.ascii("text"),
-                types.none(),
-                types.uint(0)
-            ], deployer.address)
+            dao.createProposal("Second Proposal", "Testing counter increment again", "text", null, 0, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectUint(2);
         
         // Check final proposal count
-        let finalInfo = chain.callReadOnlyFn("DaoForge-contract", "get-dao-info", [], deployer.address);
-        let finalData = finalInfo.result.expectTuple() as any;
-        assertEquals(finalData["proposal-count"], types.uint(2));
+        assertEquals(dao.getDaoInfo().proposalCount, 2);
     },
 });
 
@@ -641,28 +553,19 @@ Clarinet.test({
     async fn(chain: Chain, accounts: Map<string, Account>) {
         let deployer = accounts.get("deployer")!;
         let wallet1 = accounts.get("wallet_1")!;
+        let dao = new DaoForgeClient(chain, deployer);
         
         // Initialize DAO but don't add wallet1 as member
         let block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "initialize-dao", [
-                types.utf8("Non-Member Proposal DAO"),
-                types.utf8("Testing non-member proposal prevention"),
-                types.uint(16000)
-            ], deployer.address)
+            dao.initializeDao("Non-Member Proposal DAO", "Testing non-member proposal prevention", 16000, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         // Try to create proposal from non-member
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "create-proposal", [
-                types.utf8("Unauthorized Proposal"),
-                types.utf8("Should fail from non-member"),
-                types.ascii("text"),
-                types.none(),
-                types.uint(0)
-            ], wallet1.address)
+            dao.createProposal("Unauthorized Proposal", "Should fail from non-member", "text", null, 0, wallet1.address)
         ]);
-        block.receipts[0].result.expectErr().expectUint(100); // ERR-UNAUTHORIZED
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.UNAUTHORIZED);
     },
 });
 
@@ -670,40 +573,30 @@ Clarinet.test({
     name: "Ensure proposal status and timing are set correctly",
     async fn(chain: Chain, accounts: Map<string, Account>) {
         let deployer = accounts.get("deployer")!;
+        let dao = new DaoForgeClient(chain, deployer);
         
         // Initialize DAO
         let block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "initialize-dao", [
-                types.utf8("Timing Test DAO"),
-                types.utf8("Testing proposal timing and status"),
-                types.uint(19000)
-            ], deployer.address)
+            dao.initializeDao("Timing Test DAO", "Testing proposal timing and status", 19000, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         // Create proposal and check timing
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "create-proposal", [
-                types.utf8("Timing Test Proposal"),
-                types.utf8("Testing proposal timing calculations"),
-                types.ascii("text"),
-                types.none(),
-                types.uint(0)
-            ], deployer.address)
+            dao.createProposal("Timing Test Proposal", "Testing proposal timing calculations", "text", null, 0, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectUint(1);
         
         // Verify proposal has correct status and timing
-        let proposal = chain.callReadOnlyFn("DaoForge-contract", "get-proposal", [types.uint(1)], deployer.address);
-        let proposalData = proposal.result.expectSome().expectTuple() as any;
-        assertEquals(proposalData["status"], types.ascii("active"));
+        let proposal = dao.getProposal(1)!;
+        assertEquals(proposal.status, "active");
+        assertEquals(proposal.votingEnd, proposal.createdAt + dao.getVotingPeriod());
         
         // Verify proposal is currently active
-        let isActive = chain.callReadOnlyFn("DaoForge-contract", "is-proposal-active", [types.uint(1)], deployer.address);
-        isActive.result.expectBool(true);
+        assertEquals(dao.isProposalActive(1), true);
         
         // Verify proposal has execution info
-        assertEquals(proposalData["executed-at"], types.none());
+        assertEquals(proposal.executedAt, null);
     },
 });
 
@@ -713,58 +606,37 @@ Clarinet.test({
         let deployer = accounts.get("deployer")!;
         let wallet1 = accounts.get("wallet_1")!;
         let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
         
         // Initialize DAO and setup members with tokens
         let block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "initialize-dao", [
-                types.utf8("Voting Test DAO"),
-                types.utf8("Testing voting functionality"),
-                types.uint(25000)
-            ], deployer.address)
+            dao.initializeDao("Voting Test DAO", "Testing voting functionality", 25000, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "join-dao", [], wallet1.address),
-            Tx.contractCall("DaoForge-contract", "join-dao", [], wallet2.address)
+            dao.joinDao(wallet1.address),
+            dao.joinDao(wallet2.address)
         ]);
         assertEquals(block.receipts.length, 2);
         
         // Transfer tokens to members for voting power
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "transfer-tokens", [
-                types.principal(wallet1.address),
-                types.uint(5000)
-            ], deployer.address),
-            Tx.contractCall("DaoForge-contract", "transfer-tokens", [
-                types.principal(wallet2.address),
-                types.uint(3000)
-            ], deployer.address)
+            dao.transferTokens(wallet1.address, 5000, deployer.address),
+            dao.transferTokens(wallet2.address, 3000, deployer.address)
         ]);
         assertEquals(block.receipts.length, 2);
         
         // Create proposal
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "create-proposal", [
-                types.utf8("Voting Test Proposal"),
-                types.utf8("Testing member voting capabilities"),
-                types.ascii("text"),
-                types.none(),
-                types.uint(0)
-            ], wallet1.address)
+            dao.createProposal("Voting Test Proposal", "Testing member voting capabilities", "text", null, 0, wallet1.address)
         ]);
         block.receipts[0].result.expectOk().expectUint(1);
         
         // Vote on proposal (for and against)
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "vote-on-proposal", [
-                types.uint(1),
-                types.bool(true)
-            ], wallet1.address),
-            Tx.contractCall("DaoForge-contract", "vote-on-proposal", [
-                types.uint(1),
-                types.bool(false)
-            ], wallet2.address)
+            dao.voteOnProposal(1, true, wallet1.address),
+            dao.voteOnProposal(1, false, wallet2.address)
         ]);
         
         assertEquals(block.receipts.length, 2);
@@ -772,26 +644,22 @@ Clarinet.test({
         block.receipts[1].result.expectOk().expectBool(true);
         
         // Verify votes were recorded
-        let vote1 = chain.callReadOnlyFn("DaoForge-contract", "get-vote", [types.uint(1), types.principal(wallet1.address)], deployer.address);
-        let vote1Data = vote1.result.expectSome().expectTuple() as any;
-        assertEquals(vote1Data["support"], types.bool(true));
-        assertEquals(vote1Data["voting-power"], types.uint(5000));
+        let vote1 = dao.getVote(1, wallet1.address)!;
+        assertEquals(vote1.choice, "for");
+        assertEquals(vote1.votingPower, 5000);
         
-        let vote2 = chain.callReadOnlyFn("DaoForge-contract", "get-vote", [types.uint(1), types.principal(wallet2.address)], deployer.address);
-        let vote2Data = vote2.result.expectSome().expectTuple() as any;
-        assertEquals(vote2Data["support"], types.bool(false));
-        assertEquals(vote2Data["voting-power"], types.uint(3000));
+        let vote2 = dao.getVote(1, wallet2.address)!;
+        assertEquals(vote2.choice, "against");
+        assertEquals(vote2.votingPower, 3000);
         
         // Verify has-voted function works
-        let hasVoted1 = chain.callReadOnlyFn("DaoForge-contract", "has-voted", [types.uint(1), types.principal(wallet1.address)], deployer.address);
-        hasVoted1.result.expectBool(true);
+        assertEquals(dao.hasVoted(1, wallet1.address), true);
         
         // Verify proposal vote counts updated
-        let proposal = chain.callReadOnlyFn("DaoForge-contract", "get-proposal", [types.uint(1)], deployer.address);
-        let proposalData = proposal.result.expectSome().expectTuple() as any;
-        assertEquals(proposalData["votes-for"], types.uint(5000));
-        assertEquals(proposalData["votes-against"], types.uint(3000));
-        assertEquals(proposalData["total-votes"], types.uint(8000));
+        let proposal = dao.getProposal(1)!;
+        assertEquals(proposal.votesFor, 5000);
+        assertEquals(proposal.votesAgainst, 3000);
+        assertEquals(proposal.totalVotes, 8000);
     },
 });
 
@@ -800,59 +668,146 @@ Clarinet.test({
     async fn(chain: Chain, accounts: Map<string, Account>) {
         let deployer = accounts.get("deployer")!;
         let wallet1 = accounts.get("wallet_1")!;
+        let dao = new DaoForgeClient(chain, deployer);
         
         // Initialize DAO and setup
         let block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "initialize-dao", [
-                types.utf8("Double Vote Test DAO"),
-                types.utf8("Testing double voting prevention"),
-                types.uint(20000)
-            ], deployer.address)
+            dao.initializeDao("Double Vote Test DAO", "Testing double voting prevention", 20000, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "join-dao", [], wallet1.address)
+            dao.joinDao(wallet1.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "transfer-tokens", [
-                types.principal(wallet1.address),
-                types.uint(1000)
-            ], deployer.address)
+            dao.transferTokens(wallet1.address, 1000, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         // Create proposal
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "create-proposal", [
-                types.utf8("Double Vote Test"),
-                types.utf8("Testing double vote prevention"),
-                types.ascii("text"),
-                types.none(),
-                types.uint(0)
-            ], wallet1.address)
+            dao.createProposal("Double Vote Test", "Testing double vote prevention", "text", null, 0, wallet1.address)
         ]);
         block.receipts[0].result.expectOk().expectUint(1);
         
         // First vote should succeed
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "vote-on-proposal", [
-                types.uint(1),
-                types.bool(true)
-            ], wallet1.address)
+            dao.voteOnProposal(1, true, wallet1.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
-        // Second vote should fail
+        // Repeating the same vote should fail
+        block = chain.mineBlock([
+            dao.voteOnProposal(1, true, wallet1.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.ALREADY_VOTED);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure abstentions count towards quorum but not approval",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        setupMembers(chain, dao, deployer, 10000, [[wallet1, 3000], [wallet2, 1000]]);
+        
+        let block = chain.mineBlock([
+            dao.createProposal("Only Abstentions", "Quorum without approval", "text", null, 0, deployer.address),
+            dao.createProposal("Mostly Abstentions", "One vote decides", "text", null, 0, deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk());
+        
+        block = chain.mineBlock([
+            dao.castVote(1, "maybe", wallet1.address),
+            dao.castVote(1, "abstain", wallet1.address),
+            dao.castVote(2, "abstain", wallet1.address),
+            dao.castVote(2, "for", wallet2.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        block.receipts.slice(1).forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        assertEquals(dao.getVote(1, wallet1.address)!.choice, "abstain");
+        
+        let proposal = dao.getProposal(2)!;
+        assertEquals(proposal.votesFor, 1000);
+        assertEquals(proposal.votesAgainst, 0);
+        assertEquals(proposal.votesAbstain, 3000);
+        assertEquals(proposal.totalVotes, 4000);
+        
+        chain.mineEmptyBlockUntil(proposal.votingEnd + 1);
+        let result = dao.getProposalResult(1);
+        assertEquals(result.hasQuorum, true);
+        assertEquals(result.votesAbstain, 3000);
+        assertEquals(result.status, "defeated");
+        assertEquals(dao.getProposalResult(2).status, "passed");
+    },
+});
+
+Clarinet.test({
+    name: "Ensure votes can be changed while voting is open",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        setupMembers(chain, dao, deployer, 10000, [[wallet1, 3000], [wallet2, 1000]]);
+        
+        let block = chain.mineBlock([
+            dao.delegateVotes(wallet1.address, wallet2.address),
+            dao.createProposal("Change of Heart", "Testing vote changes", "text", null, 0, deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk());
+        
+        block = chain.mineBlock([
+            dao.voteOnProposal(1, true, deployer.address),
+            dao.voteOnProposal(1, false, wallet1.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        let proposal = dao.getProposal(1)!;
+        assertEquals([proposal.votesFor, proposal.votesAgainst, proposal.totalVotes], [6000, 4000, 10000]);
+        
+        // The delegated power moves with the delegate's vote
+        block = chain.mineBlock([dao.castVote(1, "for", wallet1.address)]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        proposal = dao.getProposal(1)!;
+        assertEquals([proposal.votesFor, proposal.votesAgainst, proposal.totalVotes], [10000, 0, 10000]);
+        assertEquals(dao.getVote(1, wallet1.address), {
+            choice: "for",
+            votingPower: 4000,
+            tokens: 4000,
+            votedAt: block.height,
+            delegate: null,
+            changes: 1,
+        });
+        assertEquals(dao.getVote(1, wallet2.address)!.choice, "for");
+        
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "vote-on-proposal", [
-                types.uint(1),
-                types.bool(false)
-            ], wallet1.address)
+            dao.castVote(1, "abstain", wallet1.address),
+            dao.castVote(1, "abstain", wallet1.address)
         ]);
-        block.receipts[0].result.expectErr().expectUint(107); // ERR-ALREADY-VOTED
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.ALREADY_VOTED);
+        proposal = dao.getProposal(1)!;
+        assertEquals([proposal.votesFor, proposal.votesAbstain, proposal.totalVotes], [6000, 4000, 10000]);
+        assertEquals(dao.getVote(1, wallet1.address)!.changes, 2);
+        
+        // A delegator voting directly takes their power back from the delegate's current choice
+        block = chain.mineBlock([dao.castVote(1, "against", wallet2.address)]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        proposal = dao.getProposal(1)!;
+        assertEquals([proposal.votesFor, proposal.votesAgainst, proposal.votesAbstain], [6000, 1000, 3000]);
+        assertEquals(proposal.totalVotes, 10000);
+        assertEquals(dao.getVote(1, wallet1.address)!.votingPower, 3000);
+        
+        // Changes do not count as extra participation
+        assertEquals(dao.getMemberInfo(wallet1.address)!.votesCast, 1);
+        
+        chain.mineEmptyBlockUntil(proposal.votingEnd + 1);
+        block = chain.mineBlock([dao.castVote(1, "against", wallet1.address)]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.VOTING_PERIOD_ENDED);
     },
 });
 
@@ -862,51 +817,36 @@ Clarinet.test({
         let deployer = accounts.get("deployer")!;
         let wallet1 = accounts.get("wallet_1")!;
         let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
         
         // Initialize DAO and create proposal
         let block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "initialize-dao", [
-                types.utf8("Non-Member Vote DAO"),
-                types.utf8("Testing non-member voting prevention"),
-                types.uint(18000)
-            ], deployer.address)
+            dao.initializeDao("Non-Member Vote DAO", "Testing non-member voting prevention", 18000, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         // Add wallet1 as member but not wallet2
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "join-dao", [], wallet1.address)
+            dao.joinDao(wallet1.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "transfer-tokens", [
-                types.principal(wallet1.address),
-                types.uint(100)
-            ], deployer.address)
+            dao.transferTokens(wallet1.address, 100, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         // Create proposal
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "create-proposal", [
-                types.utf8("Non-Member Vote Test"),
-                types.utf8("Testing non-member vote prevention"),
-                types.ascii("text"),
-                types.none(),
-                types.uint(0)
-            ], wallet1.address)
+            dao.createProposal("Non-Member Vote Test", "Testing non-member vote prevention", "text", null, 0, wallet1.address)
         ]);
         block.receipts[0].result.expectOk().expectUint(1);
         
         // Non-member vote should fail
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "vote-on-proposal", [
-                types.uint(1),
-                types.bool(true)
-            ], wallet2.address)
+            dao.voteOnProposal(1, true, wallet2.address)
         ]);
-        block.receipts[0].result.expectErr().expectUint(100); // ERR-UNAUTHORIZED
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.UNAUTHORIZED);
     },
 });
 
@@ -915,59 +855,49 @@ Clarinet.test({
     async fn(chain: Chain, accounts: Map<string, Account>) {
         let deployer = accounts.get("deployer")!;
         let wallet1 = accounts.get("wallet_1")!;
+        let dao = new DaoForgeClient(chain, deployer);
         
         // Initialize DAO
         let block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "initialize-dao", [
-                types.utf8("Treasury Test DAO"),
-                types.utf8("Testing treasury functionality"),
-                types.uint(15000)
-            ], deployer.address)
+            dao.initializeDao("Treasury Test DAO", "Testing treasury functionality", 15000, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         // Join member
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "join-dao", [], wallet1.address)
+            dao.joinDao(wallet1.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         // Check initial treasury balance
-        let initialInfo = chain.callReadOnlyFn("DaoForge-contract", "get-dao-info", [], deployer.address);
-        let initialData = initialInfo.result.expectTuple() as any;
-        assertEquals(initialData["treasury-balance"], types.uint(0));
+        assertEquals(dao.getDaoInfo().treasuryBalance, 0);
         
         // Deposit to treasury from deployer
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "deposit-to-treasury", [
-                types.uint(5000)
-            ], deployer.address)
+            dao.depositToTreasury(5000, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         // Deposit from member
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "deposit-to-treasury", [
-                types.uint(2000)
-            ], wallet1.address)
+            dao.depositToTreasury(2000, wallet1.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         // Verify treasury balance updated
-        let updatedInfo = chain.callReadOnlyFn("DaoForge-contract", "get-dao-info", [], deployer.address);
-        let updatedData = updatedInfo.result.expectTuple() as any;
-        assertEquals(updatedData["treasury-balance"], types.uint(7000));
+        assertEquals(dao.getDaoInfo().treasuryBalance, 7000);
         
         // Verify treasury transactions were recorded
-        let tx1 = chain.callReadOnlyFn("DaoForge-contract", "get-treasury-transaction", [types.uint(1)], deployer.address);
-        let tx1Data = tx1.result.expectSome().expectTuple() as any;
-        assertEquals(tx1Data["transaction-type"], types.ascii("deposit"));
-        assertEquals(tx1Data["amount"], types.uint(5000));
-        
-        let tx2 = chain.callReadOnlyFn("DaoForge-contract", "get-treasury-transaction", [types.uint(2)], deployer.address);
-        let tx2Data = tx2.result.expectSome().expectTuple() as any;
-        assertEquals(tx2Data["transaction-type"], types.ascii("deposit"));
-        assertEquals(tx2Data["amount"], types.uint(2000));
+        let tx1 = dao.getTreasuryTransaction(1)!;
+        assertEquals(tx1.transactionType, "deposit");
+        assertEquals(tx1.amount, 5000);
+        assertEquals(tx1.from, deployer.address);
+        assertEquals(tx1.proposalId, null);
+        
+        let tx2 = dao.getTreasuryTransaction(2)!;
+        assertEquals(tx2.transactionType, "deposit");
+        assertEquals(tx2.amount, 2000);
+        assertEquals(tx2.from, wallet1.address);
     },
 });
 
@@ -975,24 +905,19 @@ Clarinet.test({
     name: "Ensure treasury deposit fails with invalid parameters",
     async fn(chain: Chain, accounts: Map<string, Account>) {
         let deployer = accounts.get("deployer")!;
+        let dao = new DaoForgeClient(chain, deployer);
         
         // Initialize DAO
         let block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "initialize-dao", [
-                types.utf8("Invalid Deposit DAO"),
-                types.utf8("Testing invalid deposit scenarios"),
-                types.uint(12000)
-            ], deployer.address)
+            dao.initializeDao("Invalid Deposit DAO", "Testing invalid deposit scenarios", 12000, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         // Try deposit with zero amount
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "deposit-to-treasury", [
-                types.uint(0)
-            ], deployer.address)
+            dao.depositToTreasury(0, deployer.address)
         ]);
-        block.receipts[0].result.expectErr().expectUint(110); // ERR-INVALID-PARAMETERS
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
     },
 });
 
@@ -1001,60 +926,44 @@ Clarinet.test({
     async fn(chain: Chain, accounts: Map<string, Account>) {
         let deployer = accounts.get("deployer")!;
         let wallet1 = accounts.get("wallet_1")!;
+        let dao = new DaoForgeClient(chain, deployer);
         
-        // Initialize DAO
+        // Initialize DAO (the owner is granted the admin role)
         let block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "initialize-dao", [
-                types.utf8("Emergency Test DAO"),
-                types.utf8("Testing emergency controls"),
-                types.uint(20000)
-            ], deployer.address)
+            dao.initializeDao("Emergency Test DAO", "Testing emergency controls", 20000, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
-        // Add admin role to deployer (contract owner should have admin access)
+        // Check initial emergency pause status
+        assertEquals(dao.getDaoInfo().emergencyPause, false);
+        
+        // Non-admins cannot pause
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "add-admin-role", [
-                types.principal(deployer.address),
-                types.ascii("admin")
-            ], deployer.address)
+            dao.setEmergencyPause(wallet1.address)
         ]);
-        // This might fail if function doesn't exist, that's OK
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.UNAUTHORIZED);
         
-        // Check initial emergency pause status
-        let initialInfo = chain.callReadOnlyFn("DaoForge-contract", "get-dao-info", [], deployer.address);
-        let initialData = initialInfo.result.expectTuple() as any;
-        assertEquals(initialData["emergency-pause"], types.bool(false));
+        // Set emergency pause
+        block = chain.mineBlock([
+            dao.setEmergencyPause(deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
         
-        // Set emergency pause (this might fail if admin system not implemented)
+        // Verify emergency pause is active and blocks proposals
+        assertEquals(dao.getDaoInfo().emergencyPause, true);
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "set-emergency-pause", [], deployer.address)
+            dao.createProposal("Paused Proposal", "Should fail while paused", "text", null, 0, deployer.address)
         ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.EMERGENCY_PAUSE);
         
-        // Check if emergency pause function exists and works
-        if (block.receipts[0].result.expectOk) {
-            block.receipts[0].result.expectOk().expectBool(true);
-            
-            // Verify emergency pause is active
-            let pausedInfo = chain.callReadOnlyFn("DaoForge-contract", "get-dao-info", [], deployer.address);
-            let pausedData = pausedInfo.result.expectTuple() as any;
-            assertEquals(pausedData["emergency-pause"], types.bool(true));
-            
-            // Resume operations
-            block = chain.mineBlock([
-                Tx.contractCall("DaoForge-contract", "resume-operations", [], deployer.address)
-            ]);
-            block.receipts[0].result.expectOk().expectBool(true);
-            
-            // Verify emergency pause is disabled
-            let resumedInfo = chain.callReadOnlyFn("DaoForge-contract", "get-dao-info", [], deployer.address);
-            let resumedData = resumedInfo.result.expectTuple() as any;
-            assertEquals(resumedData["emergency-pause"], types.bool(false));
-        } else {
-            // Emergency pause functions might not be implemented for deployer without admin role
-            // This is expected behavior
-            console.log("Emergency pause functions require admin role - test passed conditionally");
-        }
+        // Resume operations
+        block = chain.mineBlock([
+            dao.resumeOperations(deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        
+        // Verify emergency pause is disabled
+        assertEquals(dao.getDaoInfo().emergencyPause, false);
     },
 });
 
@@ -1064,77 +973,55 @@ Clarinet.test({
         let deployer = accounts.get("deployer")!;
         let wallet1 = accounts.get("wallet_1")!;
         let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
         
         // Initialize DAO and setup members
         let block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "initialize-dao", [
-                types.utf8("Proposal Result DAO"),
-                types.utf8("Testing proposal result calculations"),
-                types.uint(30000)
-            ], deployer.address)
+            dao.initializeDao("Proposal Result DAO", "Testing proposal result calculations", 30000, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "join-dao", [], wallet1.address),
-            Tx.contractCall("DaoForge-contract", "join-dao", [], wallet2.address)
+            dao.joinDao(wallet1.address),
+            dao.joinDao(wallet2.address)
         ]);
         assertEquals(block.receipts.length, 2);
         
         // Distribute tokens for voting power
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "transfer-tokens", [
-                types.principal(wallet1.address),
-                types.uint(8000)
-            ], deployer.address),
-            Tx.contractCall("DaoForge-contract", "transfer-tokens", [
-                types.principal(wallet2.address),
-                types.uint(5000)
-            ], deployer.address)
+            dao.transferTokens(wallet1.address, 8000, deployer.address),
+            dao.transferTokens(wallet2.address, 5000, deployer.address)
         ]);
         assertEquals(block.receipts.length, 2);
         
         // Create proposal
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "create-proposal", [
-                types.utf8("Result Test Proposal"),
-                types.utf8("Testing proposal result calculations with voting"),
-                types.ascii("text"),
-                types.none(),
-                types.uint(0)
-            ], wallet1.address)
+            dao.createProposal("Result Test Proposal", "Testing proposal result calculations with voting", "text", null, 0, wallet1.address)
         ]);
         block.receipts[0].result.expectOk().expectUint(1);
         
         // Cast votes
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "vote-on-proposal", [
-                types.uint(1),
-                types.bool(true)
-            ], deployer.address), // 17000 tokens
-            Tx.contractCall("DaoForge-contract", "vote-on-proposal", [
-                types.uint(1),
-                types.bool(true)
-            ], wallet1.address), // 8000 tokens
-            Tx.contractCall("DaoForge-contract", "vote-on-proposal", [
-                types.uint(1),
-                types.bool(false)
-            ], wallet2.address) // 5000 tokens
+            dao.voteOnProposal(1, true, deployer.address), // 17000 tokens
+            dao.voteOnProposal(1, true, wallet1.address), // 8000 tokens
+            dao.voteOnProposal(1, false, wallet2.address) // 5000 tokens
         ]);
         assertEquals(block.receipts.length, 3);
         
         // Get proposal results
-        let results = chain.callReadOnlyFn("DaoForge-contract", "get-proposal-result", [types.uint(1)], deployer.address);
-        let resultsData = results.result.expectTuple() as any;
+        let result = dao.getProposalResult(1);
         
         // Verify vote tallies
-        assertEquals(resultsData["votes-for"], types.uint(25000)); // deployer + wallet1
-        assertEquals(resultsData["votes-against"], types.uint(5000)); // wallet2
-        assertEquals(resultsData["total-votes"], types.uint(30000)); // all votes
+        assertEquals(result.votesFor, 25000); // deployer + wallet1
+        assertEquals(result.votesAgainst, 5000); // wallet2
+        assertEquals(result.totalVotes, 30000); // all votes
         
         // Verify quorum and passage calculations
-        assertEquals(resultsData["has-quorum"], types.bool(true)); // Should have quorum with full participation
-        assertEquals(resultsData["passed"], types.bool(true)); // More votes for than against
+        assertEquals(result.quorumRequired, 6000); // 20% of supply
+        assertEquals(result.approvalThreshold, 50); // simple majority by default
+        assertEquals(result.hasQuorum, true); // Should have quorum with full participation
+        assertEquals(result.passed, true); // More votes for than against
+        assertEquals(result.status, "active"); // Voting is still open
     },
 });
 
@@ -1144,76 +1031,1908 @@ Clarinet.test({
         let deployer = accounts.get("deployer")!;
         let wallet1 = accounts.get("wallet_1")!;
         let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
         
         // Initialize DAO
         let block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "initialize-dao", [
-                types.utf8("Voting Power DAO"),
-                types.utf8("Testing voting power calculations"),
-                types.uint(40000)
-            ], deployer.address)
+            dao.initializeDao("Voting Power DAO", "Testing voting power calculations", 40000, deployer.address)
         ]);
         block.receipts[0].result.expectOk().expectBool(true);
         
         // Add members
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "join-dao", [], wallet1.address),
-            Tx.contractCall("DaoForge-contract", "join-dao", [], wallet2.address)
+            dao.joinDao(wallet1.address),
+            dao.joinDao(wallet2.address)
         ]);
         assertEquals(block.receipts.length, 2);
         
         // Transfer different amounts to test voting power
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "transfer-tokens", [
-                types.principal(wallet1.address),
-                types.uint(15000)
-            ], deployer.address),
-            Tx.contractCall("DaoForge-contract", "transfer-tokens", [
-                types.principal(wallet2.address),
-                types.uint(10000)
-            ], deployer.address)
+            dao.transferTokens(wallet1.address, 15000, deployer.address),
+            dao.transferTokens(wallet2.address, 10000, deployer.address)
         ]);
         assertEquals(block.receipts.length, 2);
         
         // Create proposal to test voting
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "create-proposal", [
-                types.utf8("Voting Power Test"),
-                types.utf8("Testing voting power based on token balance"),
-                types.ascii("text"),
-                types.none(),
-                types.uint(0)
-            ], wallet1.address)
+            dao.createProposal("Voting Power Test", "Testing voting power based on token balance", "text", null, 0, wallet1.address)
         ]);
         block.receipts[0].result.expectOk().expectUint(1);
         
         // Vote with different accounts
         block = chain.mineBlock([
-            Tx.contractCall("DaoForge-contract", "vote-on-proposal", [
-                types.uint(1),
-                types.bool(true)
-            ], wallet1.address),
-            Tx.contractCall("DaoForge-contract", "vote-on-proposal", [
-                types.uint(1),
-                types.bool(false)
-            ], wallet2.address)
+            dao.voteOnProposal(1, true, wallet1.address),
+            dao.voteOnProposal(1, false, wallet2.address)
         ]);
         assertEquals(block.receipts.length, 2);
         
         // Verify voting power matches token balances
-        let vote1 = chain.callReadOnlyFn("DaoForge-contract", "get-vote", [types.uint(1), types.principal(wallet1.address)], deployer.address);
-        let vote1Data = vote1.result.expectSome().expectTuple() as any;
-        assertEquals(vote1Data["voting-power"], types.uint(15000)); // Should match token balance
-        
-        let vote2 = chain.callReadOnlyFn("DaoForge-contract", "get-vote", [types.uint(1), types.principal(wallet2.address)], deployer.address);
-        let vote2Data = vote2.result.expectSome().expectTuple() as any;
-        assertEquals(vote2Data["voting-power"], types.uint(10000)); // Should match token balance
+        assertEquals(dao.getVote(1, wallet1.address)!.votingPower, 15000); // Should match token balance
+        assertEquals(dao.getVote(1, wallet2.address)!.votingPower, 10000); // Should match token balance
         
         // Verify proposal vote totals
-        let proposal = chain.callReadOnlyFn("DaoForge-contract", "get-proposal", [types.uint(1)], deployer.address);
-        let proposalData = proposal.result.expectSome().expectTuple() as any;
-        assertEquals(proposalData["votes-for"], types.uint(15000));
-        assertEquals(proposalData["votes-against"], types.uint(10000));
-        assertEquals(proposalData["total-votes"], types.uint(25000));
+        let proposal = dao.getProposal(1)!;
+        assertEquals(proposal.votesFor, 15000);
+        assertEquals(proposal.votesAgainst, 10000);
+        assertEquals(proposal.totalVotes, 25000);
+    },
+});
+
+// Votes a proposal through with the given voters and mines until it can be executed
+function passProposal(chain: Chain, dao: DaoForgeClient, proposalId: number, voters: Account[]) {
+    let block = chain.mineBlock(voters.map((voter) => dao.voteOnProposal(proposalId, true, voter.address)));
+    block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+    chain.mineEmptyBlockUntil(dao.getProposal(proposalId)!.executionDelayEnd);
+}
+
+Clarinet.test({
+    name: "Ensure generic proposals cannot be created with the parameter or member type",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        
+        let block = chain.mineBlock([
+            dao.initializeDao("Parameter DAO", "Testing parameter proposals", 10000, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        
+        // Parameter and member proposals carry a payload and need their own constructors
+        block = chain.mineBlock([
+            dao.createProposal("Untyped Parameter Change", "Missing payload", "parameter", null, 0, deployer.address),
+            dao.createProposal("Untyped Member Change", "Missing action", "member", deployer.address, 0, deployer.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.INVALID_PROPOSAL);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.INVALID_PROPOSAL);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure parameter proposals change the voting period",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        
+        let block = chain.mineBlock([
+            dao.initializeDao("Parameter DAO", "Testing parameter proposals", 10000, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        assertEquals(dao.getVotingPeriod(), 1008);
+        
+        block = chain.mineBlock([
+            dao.createParameterProposal("Shorter Votes", "Halve the voting period", "voting-period", 504, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectUint(1);
+        assertEquals(dao.getProposalParameter(1), { parameter: "voting-period", newValue: 504 });
+        
+        // Nothing changes before execution
+        passProposal(chain, dao, 1, [deployer]);
+        assertEquals(dao.getVotingPeriod(), 1008);
+        
+        block = chain.mineBlock([
+            dao.executeProposal(1, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        
+        // Parameter updated and change recorded
+        assertEquals(dao.getVotingPeriod(), 504);
+        assertEquals(dao.getParameterChangeCount(), 1);
+        let change = dao.getParameterChange(1)!;
+        assertEquals(change.parameter, "voting-period");
+        assertEquals(change.oldValue, 1008);
+        assertEquals(change.newValue, 504);
+        assertEquals(change.proposalId, 1);
+        assertEquals(change.changedAt, block.height);
+        
+        // New proposals use the new voting period
+        block = chain.mineBlock([
+            dao.createProposal("After Change", "Uses the shorter period", "text", null, 0, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectUint(2);
+        let proposal = dao.getProposal(2)!;
+        assertEquals(proposal.votingEnd - proposal.createdAt, 504);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure parameter proposals change the quorum percentage",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        
+        let block = chain.mineBlock([
+            dao.initializeDao("Parameter DAO", "Testing parameter proposals", 10000, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        assertEquals(dao.getQuorumPercentage(), 20);
+        
+        block = chain.mineBlock([
+            dao.createParameterProposal("Higher Quorum", "Require half the supply", "quorum-percentage", 50, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectUint(1);
+        passProposal(chain, dao, 1, [deployer]);
+        
+        block = chain.mineBlock([
+            dao.executeProposal(1, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        assertEquals(dao.getQuorumPercentage(), 50);
+        assertEquals(dao.getParameterChange(1)!.oldValue, 20);
+        
+        // Quorum of new proposals follows the new percentage
+        block = chain.mineBlock([
+            dao.createProposal("After Change", "Uses the higher quorum", "text", null, 0, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectUint(2);
+        assertEquals(dao.getProposal(2)!.quorumRequired, 5000);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure parameter proposals change the execution delay",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        
+        let block = chain.mineBlock([
+            dao.initializeDao("Parameter DAO", "Testing parameter proposals", 10000, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        assertEquals(dao.getExecutionDelay(), 144);
+        
+        block = chain.mineBlock([
+            dao.createParameterProposal("No Delay", "Execute immediately after voting", "execution-delay", 0, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectUint(1);
+        passProposal(chain, dao, 1, [deployer]);
+        
+        block = chain.mineBlock([
+            dao.executeProposal(1, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        assertEquals(dao.getExecutionDelay(), 0);
+        assertEquals(dao.getParameterChange(1)!.oldValue, 144);
+        
+        block = chain.mineBlock([
+            dao.createProposal("After Change", "Uses no execution delay", "text", null, 0, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectUint(2);
+        let proposal = dao.getProposal(2)!;
+        assertEquals(proposal.executionDelayEnd, proposal.votingEnd);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure out-of-range parameter proposals are rejected",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        
+        let block = chain.mineBlock([
+            dao.initializeDao("Parameter DAO", "Testing parameter proposals", 10000, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        
+        block = chain.mineBlock([
+            dao.createParameterProposal("Too Short", "Below minimum voting period", "voting-period", 143, deployer.address),
+            dao.createParameterProposal("Too Long", "Above maximum voting period", "voting-period", 4321, deployer.address),
+            dao.createParameterProposal("No Quorum", "Zero quorum", "quorum-percentage", 0, deployer.address),
+            dao.createParameterProposal("Over Quorum", "More than the whole supply", "quorum-percentage", 101, deployer.address),
+            dao.createParameterProposal("Long Delay", "Above maximum execution delay", "execution-delay", 1009, deployer.address),
+            dao.createParameterProposal("Unknown", "Not a governed parameter", "proposal-threshold", 5, deployer.address)
+        ]);
+        assertEquals(block.receipts.length, 6);
+        block.receipts.forEach((receipt) => receipt.result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS));
+        assertEquals(dao.getDaoInfo().proposalCount, 0);
+        
+        // Bounds themselves are accepted
+        block = chain.mineBlock([
+            dao.createParameterProposal("Shortest", "Minimum voting period", "voting-period", 144, deployer.address),
+            dao.createParameterProposal("Longest", "Maximum voting period", "voting-period", 4320, deployer.address),
+            dao.createParameterProposal("Lowest", "Minimum quorum", "quorum-percentage", 1, deployer.address),
+            dao.createParameterProposal("Highest", "Maximum quorum", "quorum-percentage", 100, deployer.address),
+            dao.createParameterProposal("Slowest", "Maximum execution delay", "execution-delay", 1008, deployer.address)
+        ]);
+        block.receipts.forEach((receipt, index) => receipt.result.expectOk().expectUint(index + 1));
+    },
+});
+
+Clarinet.test({
+    name: "Ensure executing defeated parameter proposals finalizes them without applying the change",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        
+        let block = chain.mineBlock([
+            dao.initializeDao("Parameter DAO", "Testing parameter proposals", 10000, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        
+        block = chain.mineBlock([
+            dao.createParameterProposal("Rejected Change", "Voted down", "quorum-percentage", 60, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectUint(1);
+        
+        block = chain.mineBlock([
+            dao.voteOnProposal(1, false, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        chain.mineEmptyBlockUntil(dao.getProposal(1)!.executionDelayEnd);
+        
+        // Executing a defeated proposal finalizes it without applying the change
+        block = chain.mineBlock([
+            dao.executeProposal(1, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(false);
+        assertEquals(dao.getProposal(1)!.status, "defeated");
+        assertEquals(dao.getQuorumPercentage(), 20);
+        assertEquals(dao.getParameterChangeCount(), 0);
+        
+        block = chain.mineBlock([
+            dao.executeProposal(1, deployer.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.PROPOSAL_NOT_ACTIVE);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure each proposal type uses the thresholds that applied when it was created",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        setupMembers(chain, dao, deployer, 10000, [[wallet1, 3000], [wallet2, 3000]]);
+        assertEquals(dao.getTypeThresholds("parameter"), { quorumPercentage: 20, approvalThreshold: 50 });
+        
+        let block = chain.mineBlock([
+            dao.createThresholdProposal("Supermajority", "Below simple majority", "parameter", 30, 40, deployer.address),
+            dao.createThresholdProposal("Supermajority", "Impossible approval", "parameter", 30, 100, deployer.address),
+            dao.createThresholdProposal("Supermajority", "No quorum", "parameter", 0, 66, deployer.address),
+            dao.createThresholdProposal("Supermajority", "Unknown type", "budget", 30, 66, deployer.address),
+            dao.createThresholdProposal("Supermajority", "Parameter changes need 66%", "parameter", 30, 66, deployer.address),
+            dao.createParameterProposal("Shorter Voting", "Created before the change", "voting-period", 500, deployer.address)
+        ]);
+        block.receipts.slice(0, 4).forEach((receipt) => receipt.result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS));
+        block.receipts[4].result.expectOk().expectUint(1);
+        block.receipts[5].result.expectOk().expectUint(2);
+        assertEquals(dao.getProposal(1)!.proposalType, "parameter");
+        assertEquals(dao.getThresholdChange(1), {
+            quorumPercentage: 30,
+            approvalThreshold: 66,
+            proposalType: "parameter",
+        });
+        
+        block = chain.mineBlock([
+            dao.voteOnProposal(1, true, deployer.address),
+            dao.voteOnProposal(2, true, deployer.address),
+            dao.voteOnProposal(2, false, wallet1.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        chain.mineEmptyBlockUntil(dao.getProposal(1)!.executionDelayEnd);
+        block = chain.mineBlock([dao.executeProposal(1, deployer.address)]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        assertEquals(dao.getTypeThresholds("parameter"), { quorumPercentage: 30, approvalThreshold: 66 });
+        assertEquals(dao.getTypeThresholdUpdate("parameter"), {
+            quorumPercentage: 30,
+            approvalThreshold: 66,
+            proposalId: 1,
+            updatedAt: block.height,
+        });
+        assertEquals(dao.getTypeThresholds("text"), { quorumPercentage: 20, approvalThreshold: 50 });
+        
+        // Proposal 2 keeps the simple majority it was created with
+        assertEquals(dao.getProposalResult(2).approvalThreshold, 50);
+        assertEquals(dao.getProposalResult(2).status, "passed");
+        
+        block = chain.mineBlock([
+            dao.createParameterProposal("Longer Delay", "Carried by 70%", "execution-delay", 200, deployer.address),
+            dao.createParameterProposal("Shorter Delay", "Carried by 57%", "execution-delay", 100, deployer.address),
+            dao.createProposal("Signal", "Carried by 57%", "text", null, 0, deployer.address)
+        ]);
+        block.receipts.forEach((receipt, index) => receipt.result.expectOk().expectUint(index + 3));
+        assertEquals(dao.getProposal(3)!.quorumRequired, 3000);
+        assertEquals(dao.getProposal(3)!.approvalThreshold, 66);
+        assertEquals(dao.getProposal(5)!.quorumRequired, 2000);
+        assertEquals(dao.getProposal(5)!.approvalThreshold, 50);
+        
+        block = chain.mineBlock([
+            dao.voteOnProposal(3, true, deployer.address),
+            dao.voteOnProposal(3, true, wallet1.address),
+            dao.voteOnProposal(3, false, wallet2.address),
+            dao.voteOnProposal(4, true, deployer.address),
+            dao.voteOnProposal(4, false, wallet1.address),
+            dao.voteOnProposal(5, true, deployer.address),
+            dao.voteOnProposal(5, false, wallet1.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        chain.mineEmptyBlockUntil(dao.getProposal(5)!.votingEnd + 1);
+        
+        let results = [3, 4, 5].map((id) => dao.getProposalResult(id));
+        assertEquals(results.map((result) => result.status), ["passed", "defeated", "passed"]);
+        assertEquals(results.map((result) => result.approvalThreshold), [66, 66, 50]);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure the same ballots are tallied under each voting mode",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let wallet3 = accounts.get("wallet_3")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        setupMembers(chain, dao, deployer, 10000, [[wallet1, 1200], [wallet2, 1200], [wallet3, 1200]]);
+        assertEquals(dao.getTypeVotingMode("text"), "token");
+        
+        let block = chain.mineBlock([
+            dao.createVotingModeProposal("Quadratic Signals", "Weigh by square root", "text", "quadratic", deployer.address),
+            dao.createVotingModeProposal("Member Signals", "One member one vote", "text", "member", deployer.address),
+            dao.createVotingModeProposal("Reputation Signals", "Weigh by reputation", "text", "reputation", deployer.address),
+            dao.createVotingModeProposal("Unknown Mode", "Not a mode", "text", "random", deployer.address),
+            dao.createVotingModeProposal("Unknown Type", "Not a type", "budget", "member", deployer.address)
+        ]);
+        [1, 2, 3].forEach((id, index) => block.receipts[index].result.expectOk().expectUint(id));
+        block.receipts[3].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        block.receipts[4].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        assertEquals(dao.getProposal(1)!.proposalType, "parameter");
+        assertEquals(dao.getVotingModeChange(1), { proposalType: "text", votingMode: "quadratic" });
+        
+        block = chain.mineBlock([1, 2, 3].map((id) => dao.voteOnProposal(id, true, deployer.address)));
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        chain.mineEmptyBlockUntil(dao.getProposal(3)!.executionDelayEnd);
+        
+        // Each pair of signals is created under the mode in force at the time
+        let signal = (description: string) => dao.createProposal("Signal", description, "text", null, 0, deployer.address);
+        block = chain.mineBlock([
+            signal("Token A"), signal("Token B"),
+            dao.executeProposal(1, deployer.address),
+            signal("Quadratic A"), signal("Quadratic B"),
+            dao.executeProposal(2, deployer.address),
+            signal("Member A"), signal("Member B"),
+            dao.executeProposal(3, deployer.address),
+            signal("Reputation A"), signal("Reputation B")
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk());
+        assertEquals(dao.getTypeVotingMode("text"), "reputation");
+        assertEquals(dao.getTypeVotingModeUpdate("text"), { votingMode: "reputation", proposalId: 3, updatedAt: block.height });
+        assertEquals([4, 6, 8, 10].map((id) => dao.getProposal(id)!.votingMode), ["token", "quadratic", "member", "reputation"]);
+        assertEquals(dao.getVotingWeight(6, wallet1.address), 34);
+        assertEquals(dao.getVotingWeight(8, wallet1.address), 1);
+        let reputation = [deployer, wallet1, wallet2, wallet3].map((voter) => dao.getVotingWeight(10, voter.address));
+        // The deployer voted three times before the snapshot; the rewards for executing the changes came in its block
+        assertEquals(reputation, [100 + 3, 50, 50, 50]);
+        assertEquals(dao.getReputation(deployer.address), 100 + 3 + 30);
+        
+        // Ballot A: the largest holder against everyone else. Ballot B: a two-two split of members.
+        block = chain.mineBlock([10, 11, 4, 5, 6, 7, 8, 9].flatMap((id) => {
+            let ballotA = id % 2 == 0;
+            return [
+                dao.voteOnProposal(id, true, deployer.address),
+                dao.voteOnProposal(id, !ballotA, wallet1.address),
+                dao.voteOnProposal(id, false, wallet2.address),
+                dao.voteOnProposal(id, false, wallet3.address)
+            ];
+        }));
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        // Votes on other proposals earn reputation but do not change the weight of later votes on these
+        assertEquals(dao.getVote(10, deployer.address)!.votingPower, 103);
+        assertEquals(dao.getVote(11, deployer.address)!.votingPower, 103);
+        assertEquals(dao.getVote(11, wallet1.address)!.votingPower, 50);
+        assertEquals(dao.getVote(6, wallet1.address), {
+            choice: "against",
+            votingPower: 34,
+            tokens: 1200,
+            votedAt: block.height,
+            delegate: null,
+            changes: 0,
+        });
+        assertEquals(dao.getVote(8, deployer.address)!.votingPower, 1);
+        chain.mineEmptyBlockUntil(dao.getProposal(11)!.votingEnd + 1);
+        
+        let results = [4, 6, 8, 10, 5, 7, 9, 11].map((id) => dao.getProposalResult(id));
+        assertEquals(results.map((result) => [result.votesFor, result.votesAgainst]), [
+            [6400, 3600], [80, 102], [1, 3], [103, 150],
+            [7600, 2400], [114, 68], [2, 2], [153, 100],
+        ]);
+        assertEquals(results.map((result) => result.status), [
+            "passed", "defeated", "defeated", "defeated",
+            "passed", "passed", "defeated", "passed",
+        ]);
+        
+        // Quorum counts tokens in every mode
+        results.forEach((result) => assertEquals(result.totalVotes, 10000));
+    },
+});
+
+Clarinet.test({
+    name: "Ensure proposers cannot withdraw once a member without tokens has voted",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        setupMembers(chain, dao, deployer, 10000, [[wallet1, 1000]]);
+        
+        let block = chain.mineBlock([
+            dao.joinDao(wallet2.address),
+            dao.createVotingModeProposal("Member Signals", "One member one vote", "text", "member", deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk());
+        passProposal(chain, dao, 1, [deployer]);
+        block = chain.mineBlock([dao.executeProposal(1, deployer.address)]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        
+        block = chain.mineBlock([
+            dao.createProposal("Signal", "Voted on", "text", null, 0, wallet1.address),
+            dao.createProposal("Signal", "Never voted on", "text", null, 0, wallet1.address)
+        ]);
+        block.receipts[0].result.expectOk().expectUint(2);
+        block.receipts[1].result.expectOk().expectUint(3);
+        
+        block = chain.mineBlock([dao.voteOnProposal(2, false, wallet2.address)]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        let result = dao.getProposalResult(2);
+        assertEquals([result.votesAgainst, result.totalVotes], [1, 0]);
+        
+        let reputation = dao.getReputation(wallet1.address);
+        block = chain.mineBlock([
+            dao.cancelProposal(2, "", wallet1.address),
+            dao.cancelProposal(3, "", wallet1.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.UNAUTHORIZED);
+        block.receipts[1].result.expectOk().expectBool(true);
+        assertEquals(dao.getProposal(2)!.status, "active");
+        assertEquals(dao.getReputation(wallet1.address), reputation);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure member proposals admit non-members with a token grant",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        
+        let block = chain.mineBlock([
+            dao.initializeDao("Member DAO", "Testing member proposals", 10000, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        
+        block = chain.mineBlock([
+            dao.createMemberProposal("Admit Wallet 1", "Welcome a new contributor", "admit", wallet1.address, 500, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectUint(1);
+        assertEquals(dao.getMemberAction(1), { action: "admit", tokenAmount: 500 });
+        assertEquals(dao.getProposal(1)!.target, wallet1.address);
+        assertEquals(dao.getMemberInfo(wallet1.address), null);
+        
+        passProposal(chain, dao, 1, [deployer]);
+        block = chain.mineBlock([
+            dao.executeProposal(1, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        
+        // Admitted with the granted tokens, which count towards the supply
+        let member = dao.getMemberInfo(wallet1.address)!;
+        assertEquals(member.active, true);
+        assertEquals(member.votingPower, 500);
+        assertEquals(member.reputationScore, 50);
+        assertEquals(member.joinedAt, block.height);
+        assertEquals(dao.getTokenBalance(wallet1.address), 500);
+        assertEquals(dao.getDaoInfo().totalSupply, 10500);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure suspended members cannot vote, propose or transfer until reinstated",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        
+        let block = chain.mineBlock([
+            dao.initializeDao("Member DAO", "Testing member proposals", 10000, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        
+        block = chain.mineBlock([
+            dao.joinDao(wallet1.address),
+            dao.transferTokens(wallet1.address, 1000, deployer.address)
+        ]);
+        block.receipts[1].result.expectOk().expectBool(true);
+        
+        // Suspend wallet1 without clawback
+        block = chain.mineBlock([
+            dao.createMemberProposal("Suspend Wallet 1", "Pending investigation", "suspend", wallet1.address, 0, deployer.address),
+            dao.createProposal("Open Question", "Still being voted on", "text", null, 0, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectUint(1);
+        block.receipts[1].result.expectOk().expectUint(2);
+        passProposal(chain, dao, 1, [deployer]);
+        block = chain.mineBlock([
+            dao.executeProposal(1, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        
+        let member = dao.getMemberInfo(wallet1.address)!;
+        assertEquals(member.active, false);
+        assertEquals(member.votingPower, 1000);
+        assertEquals(dao.getMemberStatus(wallet1.address), { status: "suspended", proposalId: 1, changedAt: block.height });
+        
+        // Suspended members are blocked everywhere and cannot rejoin on their own
+        block = chain.mineBlock([
+            dao.createProposal("Suspended Proposal", "Should fail", "text", null, 0, wallet1.address),
+            dao.transferTokens(wallet2.address, 100, wallet1.address),
+            dao.joinDao(wallet1.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectErr().expectUint(ErrorCode.UNAUTHORIZED));
+        
+        // Reinstate through governance
+        block = chain.mineBlock([
+            dao.createMemberProposal("Reinstate Wallet 1", "Investigation closed", "reinstate", wallet1.address, 0, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectUint(3);
+        passProposal(chain, dao, 3, [deployer]);
+        block = chain.mineBlock([
+            dao.executeProposal(3, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        
+        assertEquals(dao.getMemberInfo(wallet1.address)!.active, true);
+        assertEquals(dao.getMemberStatus(wallet1.address), null);
+        block = chain.mineBlock([
+            dao.transferTokens(wallet2.address, 100, wallet1.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure expelled members lose clawed back tokens and can only be readmitted by vote",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        
+        let block = chain.mineBlock([
+            dao.initializeDao("Member DAO", "Testing member proposals", 10000, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        
+        block = chain.mineBlock([
+            dao.joinDao(wallet1.address),
+            dao.transferTokens(wallet1.address, 1000, deployer.address)
+        ]);
+        block.receipts[1].result.expectOk().expectBool(true);
+        
+        block = chain.mineBlock([
+            dao.createMemberProposal("Expel Wallet 1", "Repeated abuse", "expel", wallet1.address, 600, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectUint(1);
+        passProposal(chain, dao, 1, [deployer]);
+        block = chain.mineBlock([
+            dao.executeProposal(1, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        
+        // Clawback burns the tokens
+        let member = dao.getMemberInfo(wallet1.address)!;
+        assertEquals(member.active, false);
+        assertEquals(member.votingPower, 400);
+        assertEquals(dao.getTokenBalance(wallet1.address), 400);
+        assertEquals(dao.getDaoInfo().totalSupply, 9400);
+        assertEquals(dao.getMemberStatus(wallet1.address)!.status, "expelled");
+        
+        // Receiving tokens does not restore membership
+        block = chain.mineBlock([
+            dao.transferTokens(wallet1.address, 100, deployer.address),
+            dao.joinDao(wallet1.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.UNAUTHORIZED);
+        assertEquals(dao.getMemberInfo(wallet1.address)!.active, false);
+        
+        // Expelled members cannot be reinstated, only readmitted
+        block = chain.mineBlock([
+            dao.createMemberProposal("Reinstate Wallet 1", "Not allowed", "reinstate", wallet1.address, 0, deployer.address),
+            dao.createMemberProposal("Readmit Wallet 1", "Second chance", "admit", wallet1.address, 0, deployer.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        block.receipts[1].result.expectOk().expectUint(2);
+        passProposal(chain, dao, 2, [deployer]);
+        block = chain.mineBlock([
+            dao.executeProposal(2, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        
+        // Readmission keeps the member's history
+        member = dao.getMemberInfo(wallet1.address)!;
+        assertEquals(member.active, true);
+        assertEquals(member.votingPower, 500);
+        assertEquals(dao.getMemberStatus(wallet1.address), null);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure invalid member proposals are rejected",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        
+        let block = chain.mineBlock([
+            dao.initializeDao("Member DAO", "Testing member proposals", 10000, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        
+        block = chain.mineBlock([
+            dao.joinDao(wallet1.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        
+        block = chain.mineBlock([
+            dao.createMemberProposal("Unknown Action", "Not supported", "promote", wallet1.address, 0, deployer.address),
+            dao.createMemberProposal("Admit Member", "Already a member", "admit", wallet1.address, 0, deployer.address),
+            dao.createMemberProposal("Suspend Outsider", "Not a member", "suspend", wallet2.address, 0, deployer.address),
+            dao.createMemberProposal("Expel Outsider", "Not a member", "expel", wallet2.address, 0, deployer.address),
+            dao.createMemberProposal("Reinstate Member", "Not suspended", "reinstate", wallet1.address, 0, deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS));
+        assertEquals(dao.getDaoInfo().proposalCount, 0);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure member proposals fail at execution when the target changed and clawbacks stop at the balance",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        
+        let block = chain.mineBlock([
+            dao.initializeDao("Member DAO", "Testing member proposals", 10000, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        
+        block = chain.mineBlock([
+            dao.joinDao(wallet1.address),
+            dao.transferTokens(wallet1.address, 100, deployer.address)
+        ]);
+        block.receipts[1].result.expectOk().expectBool(true);
+        
+        // Two competing proposals and one clawback of the full balance
+        block = chain.mineBlock([
+            dao.createMemberProposal("Suspend Wallet 1", "First", "suspend", wallet1.address, 0, deployer.address),
+            dao.createMemberProposal("Suspend Wallet 1 Again", "Duplicate", "suspend", wallet1.address, 0, deployer.address),
+            dao.createMemberProposal("Expel Wallet 1", "Claw back everything", "expel", wallet1.address, 100, deployer.address)
+        ]);
+        block.receipts.forEach((receipt, index) => receipt.result.expectOk().expectUint(index + 1));
+        
+        // The target moves tokens away while the vote is open
+        block = chain.mineBlock([
+            ...[1, 2, 3].map((id) => dao.voteOnProposal(id, true, deployer.address)),
+            dao.transferTokens(deployer.address, 40, wallet1.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        chain.mineEmptyBlockUntil(dao.getProposal(3)!.executionDelayEnd);
+        
+        block = chain.mineBlock([
+            dao.executeProposal(1, deployer.address),
+            dao.executeProposal(2, deployer.address),
+            dao.executeProposal(3, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        block.receipts[2].result.expectOk().expectBool(true);
+        
+        // Failed executions leave the proposals unexecuted, and the clawback takes what is left
+        assertEquals(dao.getProposal(2)!.status, "active");
+        assertEquals(dao.getTokenBalance(wallet1.address), 0);
+        assertEquals(dao.getTotalSupply(), 9940);
+        assertEquals(dao.getMemberStatus(wallet1.address)!.status, "expelled");
+    },
+});
+
+// Initializes a DAO where each wallet joins and receives the given token amount
+function setupMembers(chain: Chain, dao: DaoForgeClient, deployer: Account, supply: number, allocations: [Account, number][]) {
+    let block = chain.mineBlock([
+        dao.initializeDao("Governance DAO", "Testing governance features", supply, deployer.address)
+    ]);
+    block.receipts[0].result.expectOk().expectBool(true);
+    block = chain.mineBlock(allocations.flatMap(([wallet, amount]) => [
+        dao.joinDao(wallet.address),
+        dao.transferTokens(wallet.address, amount, deployer.address)
+    ]));
+    block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+}
+
+Clarinet.test({
+    name: "Ensure delegates vote with the combined power of their delegators",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let wallet3 = accounts.get("wallet_3")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        setupMembers(chain, dao, deployer, 10000, [[wallet1, 1000], [wallet2, 500], [wallet3, 300]]);
+        
+        let block = chain.mineBlock([
+            dao.delegateVotes(wallet2.address, wallet1.address),
+            dao.delegateVotes(wallet2.address, wallet3.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        
+        // Dashboard views
+        assertEquals(dao.getDelegate(wallet1.address)!.delegate, wallet2.address);
+        assertEquals(dao.getDelegators(wallet2.address), [wallet1.address, wallet3.address]);
+        assertEquals(dao.getDelegatedPower(wallet2.address), 1300);
+        
+        block = chain.mineBlock([
+            dao.createProposal("Delegated Vote", "Testing delegation", "text", null, 0, deployer.address),
+        ]);
+        block.receipts[0].result.expectOk().expectUint(1);
+        
+        block = chain.mineBlock([
+            dao.voteOnProposal(1, true, wallet2.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        
+        // The delegate's vote carries everyone's power
+        let proposal = dao.getProposal(1)!;
+        assertEquals(proposal.votesFor, 1800);
+        assertEquals(proposal.totalVotes, 1800);
+        assertEquals(dao.getVote(1, wallet2.address), { choice: "for", votingPower: 1800, tokens: 1800, votedAt: block.height, delegate: null, changes: 0 });
+        
+        // Each delegator's record shows who voted for them
+        assertEquals(dao.getVote(1, wallet1.address), { choice: "for", votingPower: 1000, tokens: 1000, votedAt: block.height, delegate: wallet2.address, changes: 0 });
+        assertEquals(dao.getVote(1, wallet3.address)!.delegate, wallet2.address);
+        assertEquals(dao.hasVoted(1, wallet1.address), true);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure delegators voting directly override their delegate",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let wallet3 = accounts.get("wallet_3")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        setupMembers(chain, dao, deployer, 10000, [[wallet1, 1000], [wallet2, 500], [wallet3, 300]]);
+        
+        let block = chain.mineBlock([
+            dao.delegateVotes(wallet2.address, wallet1.address),
+            dao.delegateVotes(wallet2.address, wallet3.address),
+            dao.createProposal("Override After", "Delegate votes first", "text", null, 0, deployer.address),
+            dao.createProposal("Override Before", "Delegator votes first", "text", null, 0, deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk());
+        
+        // Delegator votes after the delegate: their power moves to the other side
+        block = chain.mineBlock([
+            dao.voteOnProposal(1, true, wallet2.address),
+            dao.voteOnProposal(1, false, wallet1.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        let proposal = dao.getProposal(1)!;
+        assertEquals(proposal.votesFor, 800);
+        assertEquals(proposal.votesAgainst, 1000);
+        assertEquals(proposal.totalVotes, 1800);
+        assertEquals(dao.getVote(1, wallet2.address)!.votingPower, 800);
+        assertEquals(dao.getVote(1, wallet1.address), { choice: "against", votingPower: 1000, tokens: 1000, votedAt: block.height, delegate: null, changes: 0 });
+        
+        // Repeating a direct vote is rejected
+        block = chain.mineBlock([
+            dao.voteOnProposal(1, false, wallet1.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.ALREADY_VOTED);
+        
+        // Delegator votes before the delegate: the delegate skips them
+        block = chain.mineBlock([
+            dao.voteOnProposal(2, false, wallet1.address),
+            dao.voteOnProposal(2, true, wallet2.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        proposal = dao.getProposal(2)!;
+        assertEquals(proposal.votesFor, 800);
+        assertEquals(proposal.votesAgainst, 1000);
+        assertEquals(dao.getVote(2, wallet1.address)!.delegate, null);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure per-proposal delegation takes precedence over standing delegation",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let wallet3 = accounts.get("wallet_3")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        setupMembers(chain, dao, deployer, 10000, [[wallet1, 1000], [wallet2, 500], [wallet3, 300]]);
+        
+        let block = chain.mineBlock([
+            dao.delegateVotes(wallet2.address, wallet1.address),
+            dao.createProposal("Specialist Vote", "Wallet 3 knows this topic", "text", null, 0, deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk());
+        
+        block = chain.mineBlock([
+            dao.delegateVotesOnProposal(1, wallet3.address, wallet1.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        assertEquals(dao.getProposalDelegate(1, wallet1.address)!.delegate, wallet3.address);
+        
+        block = chain.mineBlock([
+            dao.voteOnProposal(1, true, wallet2.address),
+            dao.voteOnProposal(1, false, wallet3.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        
+        let proposal = dao.getProposal(1)!;
+        assertEquals(proposal.votesFor, 500);
+        assertEquals(proposal.votesAgainst, 1300);
+        assertEquals(dao.getVote(1, wallet1.address)!.delegate, wallet3.address);
+        
+        // Delegation is no longer possible once a vote was recorded
+        block = chain.mineBlock([
+            dao.delegateVotesOnProposal(1, wallet2.address, wallet1.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.ALREADY_VOTED);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure revoked delegations no longer count",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let wallet3 = accounts.get("wallet_3")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        setupMembers(chain, dao, deployer, 10000, [[wallet1, 1000], [wallet2, 500], [wallet3, 300]]);
+        
+        let block = chain.mineBlock([
+            dao.delegateVotes(wallet2.address, wallet1.address),
+            dao.delegateVotes(wallet2.address, wallet3.address),
+            dao.createProposal("Revocation", "Testing revocation", "text", null, 0, deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk());
+        
+        // Per-proposal delegation and its revocation
+        block = chain.mineBlock([
+            dao.delegateVotesOnProposal(1, wallet3.address, wallet1.address),
+            dao.revokeProposalDelegation(1, wallet1.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        assertEquals(dao.getProposalDelegate(1, wallet1.address), null);
+        
+        block = chain.mineBlock([
+            dao.revokeDelegation(wallet1.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        assertEquals(dao.getDelegate(wallet1.address), null);
+        assertEquals(dao.getDelegators(wallet2.address), [wallet3.address]);
+        assertEquals(dao.getDelegatedPower(wallet2.address), 300);
+        
+        block = chain.mineBlock([
+            dao.voteOnProposal(1, true, wallet2.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        assertEquals(dao.getProposal(1)!.votesFor, 800);
+        assertEquals(dao.hasVoted(1, wallet1.address), false);
+        
+        // Nothing left to revoke
+        block = chain.mineBlock([
+            dao.revokeDelegation(wallet1.address),
+            dao.revokeProposalDelegation(1, wallet1.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS));
+    },
+});
+
+Clarinet.test({
+    name: "Ensure delegates without tokens can vote with delegated power",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        setupMembers(chain, dao, deployer, 10000, [[wallet1, 1000]]);
+        
+        let block = chain.mineBlock([
+            dao.joinDao(wallet2.address),
+            dao.createProposal("Tokenless Delegate", "Testing delegated power only", "text", null, 0, deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk());
+        
+        // Without delegations the vote has no power
+        block = chain.mineBlock([
+            dao.voteOnProposal(1, true, wallet2.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.INSUFFICIENT_TOKENS);
+        
+        block = chain.mineBlock([
+            dao.delegateVotes(wallet2.address, wallet1.address),
+            dao.voteOnProposal(1, true, wallet2.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        assertEquals(dao.getProposal(1)!.votesFor, 1000);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure invalid delegations are rejected",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        setupMembers(chain, dao, deployer, 10000, [[wallet1, 1000]]);
+        
+        let block = chain.mineBlock([
+            dao.delegateVotes(wallet1.address, wallet1.address),
+            dao.delegateVotes(wallet2.address, wallet1.address),
+            dao.delegateVotes(wallet1.address, wallet2.address),
+            dao.delegateVotesOnProposal(1, deployer.address, wallet1.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS); // self
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS); // non-member delegate
+        block.receipts[2].result.expectErr().expectUint(ErrorCode.UNAUTHORIZED); // non-member delegator
+        block.receipts[3].result.expectErr().expectUint(ErrorCode.PROPOSAL_NOT_FOUND);
+        
+        // Re-delegating moves the delegator to the new delegate
+        block = chain.mineBlock([
+            dao.delegateVotes(deployer.address, wallet1.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        assertEquals(dao.getDelegators(deployer.address), [wallet1.address]);
+        
+        block = chain.mineBlock([
+            dao.joinDao(wallet2.address),
+            dao.delegateVotes(wallet2.address, wallet1.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        assertEquals(dao.getDelegators(deployer.address), []);
+        assertEquals(dao.getDelegators(wallet2.address), [wallet1.address]);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure tokens cannot be voted again after a transfer",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        setupMembers(chain, dao, deployer, 10000, [[wallet1, 1000]]);
+        
+        let block = chain.mineBlock([
+            dao.joinDao(wallet2.address),
+            dao.createProposal("Double Vote", "Vote, transfer, vote again", "text", null, 0, deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk());
+        
+        // Vote, move the tokens to a second wallet and try to vote with them again
+        block = chain.mineBlock([
+            dao.voteOnProposal(1, true, wallet1.address),
+            dao.transferTokens(wallet2.address, 1000, wallet1.address),
+            dao.voteOnProposal(1, true, wallet2.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[1].result.expectOk().expectBool(true);
+        block.receipts[2].result.expectErr().expectUint(ErrorCode.INSUFFICIENT_TOKENS);
+        
+        let proposal = dao.getProposal(1)!;
+        assertEquals(proposal.votesFor, 1000);
+        assertEquals(proposal.totalVotes, 1000);
+        assertEquals(dao.hasVoted(1, wallet2.address), false);
+        
+        // Transfers in the creation block itself do not count either
+        block = chain.mineBlock([
+            dao.createProposal("Same Block", "Transfer after creation", "text", null, 0, deployer.address),
+            dao.voteOnProposal(2, true, wallet2.address),
+            dao.transferTokens(wallet1.address, 1000, wallet2.address),
+            dao.voteOnProposal(2, true, wallet1.address)
+        ]);
+        block.receipts[0].result.expectOk().expectUint(2);
+        block.receipts[1].result.expectOk().expectBool(true);
+        block.receipts[2].result.expectOk().expectBool(true);
+        block.receipts[3].result.expectErr().expectUint(ErrorCode.INSUFFICIENT_TOKENS);
+        assertEquals(dao.getProposal(2)!.votesFor, 1000);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure voting power is read from balance checkpoints",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        setupMembers(chain, dao, deployer, 10000, [[wallet1, 1000], [wallet2, 500]]);
+        
+        let first = chain.mineBlock([
+            dao.transferTokens(wallet2.address, 200, wallet1.address),
+            dao.transferTokens(wallet2.address, 100, wallet1.address)
+        ]);
+        chain.mineEmptyBlock(5);
+        let second = chain.mineBlock([
+            dao.transferTokens(deployer.address, 700, wallet1.address)
+        ]);
+        
+        // Power as of the start of each block
+        assertEquals(dao.getVotingPowerAt(wallet1.address, first.height), 1000);
+        assertEquals(dao.getVotingPowerAt(wallet1.address, first.height + 1), 700);
+        assertEquals(dao.getVotingPowerAt(wallet2.address, first.height + 3), 800);
+        assertEquals(dao.getVotingPowerAt(wallet1.address, second.height), 700);
+        assertEquals(dao.getVotingPowerAt(wallet1.address, second.height + 1), 0);
+        assertEquals(dao.getVotingPowerAt(wallet1.address, 0), 0);
+        assertEquals(dao.getVotingPowerAt(wallet2.address, second.height + 100), dao.getTokenBalance(wallet2.address));
+        
+        // Delegated votes are counted at the snapshot too
+        let block = chain.mineBlock([
+            dao.delegateVotes(wallet2.address, deployer.address),
+            dao.createProposal("Snapshot Delegation", "Delegated power at creation", "text", null, 0, wallet2.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk());
+        block = chain.mineBlock([
+            dao.transferTokens(wallet1.address, 5000, deployer.address),
+            dao.voteOnProposal(1, true, wallet2.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        assertEquals(dao.getVote(1, deployer.address)!.votingPower, 9200);
+        assertEquals(dao.getProposal(1)!.votesFor, 10000);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure finalized proposals record passed, defeated and no-quorum outcomes",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        setupMembers(chain, dao, deployer, 10000, [[wallet1, 3000], [wallet2, 1000]]);
+        
+        let block = chain.mineBlock([
+            dao.createProposal("Passing", "Majority in favour", "text", null, 0, deployer.address),
+            dao.createProposal("Losing", "Majority against", "text", null, 0, wallet1.address),
+            dao.createProposal("Quiet", "Below quorum", "text", null, 0, wallet2.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk());
+        
+        block = chain.mineBlock([
+            dao.voteOnProposal(1, true, deployer.address),
+            dao.voteOnProposal(2, true, wallet1.address),
+            dao.voteOnProposal(2, false, deployer.address),
+            dao.voteOnProposal(3, true, wallet2.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        
+        // Outcomes cannot be finalized while voting is open
+        block = chain.mineBlock([
+            dao.finalizeProposal(1, wallet2.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.VOTING_PERIOD_ENDED);
+        assertEquals(dao.getProposalResult(1).status, "active");
+        
+        chain.mineEmptyBlockUntil(dao.getProposal(1)!.votingEnd + 1);
+        
+        // Results expose the outcome before anyone finalizes
+        assertEquals(dao.getProposalResult(2).status, "defeated");
+        assertEquals(dao.getProposal(2)!.status, "active");
+        assertEquals(dao.isProposalActive(2), false);
+        
+        // Anyone can finalize
+        block = chain.mineBlock([
+            dao.finalizeProposal(1, wallet2.address),
+            dao.finalizeProposal(2, wallet2.address),
+            dao.finalizeProposal(3, wallet2.address),
+            dao.finalizeProposal(4, wallet2.address)
+        ]);
+        block.receipts[0].result.expectOk().expectAscii("passed");
+        block.receipts[1].result.expectOk().expectAscii("defeated");
+        block.receipts[2].result.expectOk().expectAscii("no-quorum");
+        block.receipts[3].result.expectErr().expectUint(ErrorCode.PROPOSAL_NOT_FOUND);
+        assertEquals(dao.getProposal(1)!.status, "passed");
+        assertEquals(dao.getProposal(2)!.status, "defeated");
+        assertEquals(dao.getProposal(3)!.status, "no-quorum");
+        assertEquals(dao.getProposalResult(3).status, "no-quorum");
+        assertEquals(dao.getProposalResult(4).status, "not-found");
+        
+        // Failed outcomes are terminal
+        block = chain.mineBlock([
+            dao.finalizeProposal(2, deployer.address),
+            dao.finalizeProposal(3, deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectErr().expectUint(ErrorCode.PROPOSAL_NOT_ACTIVE));
+        
+        // Passed proposals can still be executed once the delay ends
+        chain.mineEmptyBlockUntil(dao.getProposal(1)!.executionDelayEnd);
+        block = chain.mineBlock([
+            dao.executeProposal(1, deployer.address),
+            dao.executeProposal(2, deployer.address),
+            dao.finalizeProposal(1, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.PROPOSAL_NOT_ACTIVE);
+        block.receipts[2].result.expectErr().expectUint(ErrorCode.PROPOSAL_NOT_ACTIVE);
+        assertEquals(dao.getProposal(1)!.status, "executed");
+        assertEquals(dao.getProposalResult(1).status, "executed");
+    },
+});
+
+Clarinet.test({
+    name: "Ensure passed proposals expire after the execution grace period",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        setupMembers(chain, dao, deployer, 10000, [[wallet1, 1000]]);
+        
+        let block = chain.mineBlock([
+            dao.createProposal("Finalized Late", "Passed then expired", "text", null, 0, deployer.address),
+            dao.createProposal("Never Finalized", "Expires without finalization", "text", null, 0, deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk());
+        block = chain.mineBlock([
+            dao.voteOnProposal(1, true, deployer.address),
+            dao.voteOnProposal(2, true, deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        chain.mineEmptyBlockUntil(dao.getProposal(1)!.executionDelayEnd);
+        
+        // Finalized as passed within the grace period
+        block = chain.mineBlock([
+            dao.finalizeProposal(1, wallet1.address)
+        ]);
+        block.receipts[0].result.expectOk().expectAscii("passed");
+        
+        // 1008 blocks after the delay ends the proposals can no longer be executed
+        chain.mineEmptyBlockUntil(dao.getProposal(1)!.executionDelayEnd + 1009);
+        assertEquals(dao.getProposalResult(1).status, "expired");
+        assertEquals(dao.getProposalResult(2).status, "expired");
+        
+        // Executing an expired proposal records the expiry instead
+        block = chain.mineBlock([
+            dao.executeProposal(1, deployer.address),
+            dao.finalizeProposal(2, wallet1.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(false);
+        block.receipts[1].result.expectOk().expectAscii("expired");
+        assertEquals(dao.getProposal(1)!.status, "expired");
+        assertEquals(dao.getProposal(1)!.executedAt, null);
+        assertEquals(dao.getProposal(2)!.status, "expired");
+        
+        block = chain.mineBlock([
+            dao.executeProposal(1, deployer.address),
+            dao.finalizeProposal(2, wallet1.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectErr().expectUint(ErrorCode.PROPOSAL_NOT_ACTIVE));
+    },
+});
+
+Clarinet.test({
+    name: "Ensure proposers can withdraw proposals before any votes are cast",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        setupMembers(chain, dao, deployer, 10000, [[wallet1, 1000], [wallet2, 1000]]);
+        
+        let block = chain.mineBlock([
+            dao.createProposal("Pay Wallet 2", "Wrong amount", "treasury", wallet2.address, 5000000, wallet1.address),
+            dao.createProposal("Typo Proposal", "Already voted on", "text", null, 0, wallet1.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk());
+        assertEquals(dao.getMemberInfo(wallet1.address)!.proposalsCreated, 2);
+        
+        block = chain.mineBlock([
+            dao.voteOnProposal(2, true, wallet2.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        
+        // Only the proposer may withdraw, and only before votes are cast
+        block = chain.mineBlock([
+            dao.cancelProposal(1, "", wallet2.address),
+            dao.cancelProposal(2, "", wallet1.address),
+            dao.cancelProposal(1, "", wallet1.address),
+            dao.cancelProposal(3, "", wallet1.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.UNAUTHORIZED);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.UNAUTHORIZED);
+        block.receipts[2].result.expectOk().expectBool(true);
+        block.receipts[3].result.expectErr().expectUint(ErrorCode.PROPOSAL_NOT_FOUND);
+        
+        assertEquals(dao.getProposal(1)!.status, "cancelled");
+        assertEquals(dao.getProposalResult(1).status, "cancelled");
+        assertEquals(dao.getProposalCancellation(1), { cancelledBy: wallet1.address, reason: "", cancelledAt: block.height });
+        
+        // Withdrawn proposals do not count and cost no reputation
+        let member = dao.getMemberInfo(wallet1.address)!;
+        assertEquals(member.proposalsCreated, 1);
+        assertEquals(member.reputationScore, 50);
+        
+        // Cancelled proposals can no longer be voted on, finalized, executed or cancelled
+        block = chain.mineBlock([
+            dao.voteOnProposal(1, true, wallet2.address),
+            dao.delegateVotesOnProposal(1, wallet2.address, deployer.address),
+            dao.cancelProposal(1, "Again", deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectErr().expectUint(ErrorCode.PROPOSAL_NOT_ACTIVE));
+        chain.mineEmptyBlockUntil(dao.getProposal(1)!.executionDelayEnd);
+        block = chain.mineBlock([
+            dao.finalizeProposal(1, wallet1.address),
+            dao.executeProposal(1, wallet1.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectErr().expectUint(ErrorCode.PROPOSAL_NOT_ACTIVE));
+    },
+});
+
+Clarinet.test({
+    name: "Ensure admins can cancel proposals with a reason until they are executed",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        setupMembers(chain, dao, deployer, 10000, [[wallet1, 1000]]);
+        
+        let block = chain.mineBlock([
+            dao.createProposal("Spam", "Cancelled while voting", "text", null, 0, wallet1.address),
+            dao.createProposal("Passed", "Cancelled after passing", "text", null, 0, wallet1.address),
+            dao.createProposal("Executed", "Too late to cancel", "text", null, 0, wallet1.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk());
+        
+        block = chain.mineBlock([
+            dao.voteOnProposal(1, true, wallet1.address),
+            dao.voteOnProposal(2, true, deployer.address),
+            dao.voteOnProposal(3, true, deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        
+        // A reason is required
+        block = chain.mineBlock([
+            dao.cancelProposal(1, "", deployer.address),
+            dao.cancelProposal(1, "Off-topic proposal", deployer.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        block.receipts[1].result.expectOk().expectBool(true);
+        assertEquals(dao.getProposalCancellation(1), { cancelledBy: deployer.address, reason: "Off-topic proposal", cancelledAt: block.height });
+        
+        // Moderated cancellations keep the proposal count and cost reputation
+        let member = dao.getMemberInfo(wallet1.address)!;
+        assertEquals(member.proposalsCreated, 3);
+        assertEquals(member.reputationScore, 51 - 5);
+        
+        // Passed proposals can be cancelled before execution, executed ones cannot
+        chain.mineEmptyBlockUntil(dao.getProposal(2)!.executionDelayEnd);
+        block = chain.mineBlock([
+            dao.finalizeProposal(2, deployer.address),
+            dao.executeProposal(3, deployer.address),
+            dao.cancelProposal(2, "Superseded", deployer.address),
+            dao.cancelProposal(3, "Superseded", deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectAscii("passed");
+        block.receipts[1].result.expectOk().expectBool(true);
+        block.receipts[2].result.expectOk().expectBool(true);
+        block.receipts[3].result.expectErr().expectUint(ErrorCode.PROPOSAL_ALREADY_EXECUTED);
+        assertEquals(dao.getProposal(2)!.status, "cancelled");
+        // Executing proposal 3 earned the proposer reputation
+        assertEquals(dao.getMemberInfo(wallet1.address)!.reputationScore, 46 + 10 - 5);
+        
+        block = chain.mineBlock([
+            dao.executeProposal(2, deployer.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.PROPOSAL_NOT_ACTIVE);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure reputation rewards executed proposals, penalizes defeats and decays with inactivity",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        setupMembers(chain, dao, deployer, 10000, [[wallet1, 1000], [wallet2, 1000]]);
+        let settings = dao.getReputationSettings();
+        assertEquals([settings.minProposalReputation, settings.maxReputation, settings.decayPeriod], [10, 1000, 4320]);
+        
+        let block = chain.mineBlock([
+            dao.createProposal("Useful", "Will pass", "text", null, 0, wallet1.address),
+            dao.createProposal("Spam", "Will be defeated", "text", null, 0, wallet1.address),
+            dao.createParameterProposal("Reputation Gate", "Require 55 to propose", "min-reputation", 55, deployer.address),
+            dao.createParameterProposal("Reputation Gate", "Above the cap", "min-reputation", 1001, deployer.address)
+        ]);
+        [1, 2, 3].forEach((id, index) => block.receipts[index].result.expectOk().expectUint(id));
+        block.receipts[3].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        let activeAt = block.height;
+        
+        block = chain.mineBlock([
+            dao.voteOnProposal(1, true, deployer.address),
+            dao.voteOnProposal(2, false, deployer.address),
+            dao.voteOnProposal(3, true, deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        assertEquals(dao.getReputation(deployer.address), 103);
+        
+        chain.mineEmptyBlockUntil(dao.getProposal(3)!.executionDelayEnd);
+        block = chain.mineBlock([
+            dao.executeProposal(1, deployer.address),
+            dao.executeProposal(3, deployer.address),
+            dao.finalizeProposal(2, deployer.address)
+        ]);
+        block.receipts[2].result.expectOk().expectAscii("defeated");
+        assertEquals(dao.getReputation(wallet1.address), 50);
+        assertEquals(dao.getReputation(deployer.address), 113);
+        assertEquals(dao.getReputationChangeCount(wallet1.address), 2);
+        assertEquals(dao.getReputationChange(wallet1.address, 1), {
+            oldScore: 50,
+            newScore: 60,
+            reason: "executed",
+            proposalId: 1,
+            changedAt: block.height,
+        });
+        assertEquals(dao.getReputationChange(wallet1.address, 2)!.reason, "defeated");
+        assertEquals(dao.getReputationChange(wallet1.address, 2)!.newScore, 50);
+        
+        // Proposing now needs 55 reputation
+        block = chain.mineBlock([
+            dao.createProposal("Another", "Not enough reputation", "text", null, 0, wallet1.address),
+            dao.createProposal("Another", "Not enough reputation", "text", null, 0, wallet2.address),
+            dao.createProposal("Another", "Trusted proposer", "text", null, 0, deployer.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.INSUFFICIENT_REPUTATION);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.INSUFFICIENT_REPUTATION);
+        block.receipts[2].result.expectOk().expectUint(4);
+        
+        // Two decay periods after proposing, wallet 1 has lost 10 reputation without touching the ledger
+        chain.mineEmptyBlockUntil(activeAt + 2 * settings.decayPeriod + 10);
+        assertEquals(dao.getReputation(wallet1.address), 40);
+        assertEquals(dao.getMemberInfo(wallet1.address)!.reputationScore, 40);
+        let standings = dao.getReputationStandings([deployer.address, wallet1.address, wallet2.address, accounts.get("wallet_9")!.address]);
+        assertEquals(standings.map((standing) => standing.reputation), [108, 40, 40, 0]);
+        assertEquals(standings[1].lastActive, activeAt);
+        assertEquals(standings[3].lastActive, null);
+        assertEquals(dao.getReputationStanding(wallet1.address), standings[1]);
+        
+        // Voting settles the decay and restarts the clock
+        block = chain.mineBlock([
+            dao.createProposal("Check-in", "Still here", "text", null, 0, deployer.address),
+            dao.voteOnProposal(5, true, wallet1.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk());
+        assertEquals(dao.getMemberInfo(wallet1.address)!.reputationScore, 41);
+        assertEquals(dao.getReputationChangeCount(wallet1.address), 4);
+        assertEquals(dao.getReputationChange(wallet1.address, 3), {
+            oldScore: 50,
+            newScore: 40,
+            reason: "decay",
+            proposalId: null,
+            changedAt: block.height,
+        });
+        assertEquals(dao.getReputationChange(wallet1.address, 4)!.reason, "vote");
+        assertEquals(dao.getReputationStandings([wallet1.address])[0].lastActive, block.height);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure proposals that miss quorum cost the proposer reputation",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        setupMembers(chain, dao, deployer, 10000, [[wallet1, 1000]]);
+        
+        let block = chain.mineBlock([
+            dao.createProposal("Spam", "Nobody will vote", "text", null, 0, wallet1.address)
+        ]);
+        block.receipts[0].result.expectOk().expectUint(1);
+        
+        chain.mineEmptyBlockUntil(dao.getProposal(1)!.votingEnd + 1);
+        block = chain.mineBlock([
+            dao.finalizeProposal(1, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectAscii("no-quorum");
+        assertEquals(dao.getReputation(wallet1.address), 40);
+        assertEquals(dao.getReputationChange(wallet1.address, 1), {
+            oldScore: 50,
+            newScore: 40,
+            reason: "no-quorum",
+            proposalId: 1,
+            changedAt: block.height,
+        });
+    },
+});
+
+Clarinet.test({
+    name: "Ensure optimistic proposals pass after the veto window unless vetoed",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let wallet3 = accounts.get("wallet_3")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        setupMembers(chain, dao, deployer, 10000, [[wallet1, 2000], [wallet2, 500], [wallet3, 500]]);
+        assertEquals(dao.getOptimisticSettings(), { optimisticPeriod: 144, vetoThreshold: 10, minReputation: 100 });
+        let block = chain.mineBlock([dao.lockTokens(500, 52560, wallet3.address)]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        
+        // The deployer is an admin with 100 reputation, wallet 2 becomes a moderator, wallet 1 has neither
+        block = chain.mineBlock([
+            dao.grantRole(wallet2.address, "moderator", deployer.address),
+            dao.createOptimisticProposal("Routine", "Not trusted yet", "text", null, 0, wallet1.address),
+            dao.createOptimisticProposal("Routine A", "Unopposed", "text", null, 0, deployer.address),
+            dao.createOptimisticProposal("Routine B", "Vetoed", "text", null, 0, deployer.address),
+            dao.createOptimisticProposal("Routine C", "Opposed below the veto", "text", null, 0, wallet2.address),
+            dao.createOptimisticProposal("Routine D", "Needs a payload", "parameter", null, 0, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.INSUFFICIENT_REPUTATION);
+        [1, 2, 3].forEach((id, index) => block.receipts[index + 2].result.expectOk().expectUint(id));
+        block.receipts[5].result.expectErr().expectUint(ErrorCode.INVALID_PROPOSAL);
+        
+        let proposal = dao.getProposal(1)!;
+        assertEquals(proposal.votingEnd, block.height + 144);
+        assertEquals(proposal.executionDelayEnd, block.height + 144 + 144);
+        assertEquals(proposal.quorumRequired, 0);
+        assertEquals(dao.getOptimisticProposal(1), { vetoRequired: 1000, tokensAgainst: 0 });
+        assertEquals(dao.getOptimisticProposal(4), null);
+        
+        block = chain.mineBlock([
+            dao.voteOnProposal(2, false, wallet1.address),
+            dao.voteOnProposal(3, false, wallet2.address),
+            dao.voteOnProposal(3, false, wallet3.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        chain.mineEmptyBlockUntil(dao.getProposal(3)!.executionDelayEnd);
+        
+        // The locker's boost weighs in the tally but not in the veto, which counts tokens
+        assertEquals(dao.getProposal(3)!.votesAgainst > 1000, true);
+        assertEquals(dao.getOptimisticProposal(3), { vetoRequired: 1000, tokensAgainst: 1000 });
+        assertEquals(dao.getOptimisticProposal(2), { vetoRequired: 1000, tokensAgainst: 2000 });
+        
+        // Silence and opposition of no more than 10% of supply both count as consent
+        let results = [1, 2, 3].map((id) => dao.getProposalResult(id));
+        assertEquals(results.map((result) => result.status), ["passed", "defeated", "passed"]);
+        assertEquals(results.map((result) => result.hasQuorum), [true, true, true]);
+        
+        block = chain.mineBlock([
+            dao.executeProposal(1, deployer.address),
+            dao.executeProposal(2, deployer.address),
+            dao.executeProposal(3, wallet3.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[1].result.expectOk().expectBool(false);
+        block.receipts[2].result.expectOk().expectBool(true);
+        assertEquals(dao.getProposal(2)!.status, "defeated");
+    },
+});
+
+Clarinet.test({
+    name: "Ensure admins can grant and revoke roles but never remove the last admin",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let wallet3 = accounts.get("wallet_3")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        setupMembers(chain, dao, deployer, 10000, [[wallet1, 1000], [wallet2, 1000]]);
+        
+        // The owner starts as the only admin
+        assertEquals(dao.getRole(deployer.address)!.role, "admin");
+        assertEquals(dao.getAdminCount(), 1);
+        assertEquals(dao.getRoleChange(1)!.action, "grant");
+        
+        let block = chain.mineBlock([
+            dao.grantRole(wallet2.address, "moderator", wallet1.address),
+            dao.grantRole(wallet1.address, "owner" as Role, deployer.address),
+            dao.grantRole(wallet3.address, "moderator", deployer.address),
+            dao.grantRole(wallet1.address, "moderator", deployer.address),
+            dao.grantRole(wallet1.address, "moderator", deployer.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.UNAUTHORIZED);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        block.receipts[2].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS); // not a member
+        block.receipts[3].result.expectOk().expectBool(true);
+        block.receipts[4].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS); // already held
+        assertEquals(dao.getRole(wallet1.address), { role: "moderator", grantedBy: deployer.address, grantedAt: block.height, active: true });
+        
+        // The last admin can neither revoke nor downgrade themselves
+        block = chain.mineBlock([
+            dao.revokeRole(deployer.address, deployer.address),
+            dao.grantRole(deployer.address, "treasurer", deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectErr().expectUint(ErrorCode.LAST_ADMIN));
+        
+        // A second admin can take over
+        block = chain.mineBlock([
+            dao.grantRole(wallet2.address, "admin", deployer.address),
+            dao.revokeRole(deployer.address, wallet2.address),
+            dao.setEmergencyPause(deployer.address),
+            dao.revokeRole(wallet2.address, wallet2.address),
+            dao.revokeRole(deployer.address, wallet2.address),
+            dao.revokeRole(wallet1.address, wallet2.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[1].result.expectOk().expectBool(true);
+        block.receipts[2].result.expectErr().expectUint(ErrorCode.UNAUTHORIZED);
+        block.receipts[3].result.expectErr().expectUint(ErrorCode.LAST_ADMIN);
+        block.receipts[4].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS); // already revoked
+        block.receipts[5].result.expectOk().expectBool(true);
+        assertEquals(dao.getAdminCount(), 1);
+        assertEquals(dao.getRole(deployer.address)!.active, false);
+        
+        // Every change is kept in the history
+        assertEquals(dao.getRoleChangeCount(), 5);
+        assertEquals(dao.getRoleChange(3), {
+            account: wallet2.address,
+            role: "admin",
+            action: "grant",
+            changedBy: deployer.address,
+            changedAt: block.height
+        });
+        assertEquals(dao.getRoleChange(4), {
+            account: deployer.address,
+            role: "admin",
+            action: "revoke",
+            changedBy: wallet2.address,
+            changedAt: block.height
+        });
+        assertEquals(dao.getRoleChange(5)!.role, "moderator");
+    },
+});
+
+Clarinet.test({
+    name: "Ensure moderators can cancel proposals but not pause the DAO",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        setupMembers(chain, dao, deployer, 10000, [[wallet1, 1000], [wallet2, 1000]]);
+        
+        let block = chain.mineBlock([
+            dao.grantRole(wallet1.address, "moderator", deployer.address),
+            dao.createProposal("Spam One", "Buy my NFT", "text", null, 0, wallet2.address),
+            dao.createProposal("Spam Two", "Buy my other NFT", "text", null, 0, wallet2.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk());
+        
+        block = chain.mineBlock([
+            dao.voteOnProposal(1, true, wallet2.address),
+            dao.cancelProposal(1, "Spam", wallet1.address),
+            dao.setEmergencyPause(wallet1.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[1].result.expectOk().expectBool(true);
+        block.receipts[2].result.expectErr().expectUint(ErrorCode.UNAUTHORIZED);
+        assertEquals(dao.getProposalCancellation(1)!.cancelledBy, wallet1.address);
+        
+        // Revoked moderators lose the capability
+        block = chain.mineBlock([
+            dao.revokeRole(wallet1.address, deployer.address),
+            dao.cancelProposal(2, "Spam", wallet1.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.UNAUTHORIZED);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure treasurers can pay small amounts within their allowance",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        setupMembers(chain, dao, deployer, 10000, [[wallet1, 1000]]);
+        
+        let block = chain.mineBlock([
+            dao.depositToTreasury(5000000, deployer.address),
+            dao.grantRole(wallet1.address, "treasurer", deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        assertEquals(dao.getTreasurerAllowance(wallet1.address), 1000000);
+        assertEquals(dao.getTreasurerAllowance(deployer.address), 0);
+        
+        block = chain.mineBlock([
+            dao.treasurerPayment(wallet2.address, 400000, wallet1.address),
+            dao.treasurerPayment(wallet2.address, 700000, wallet1.address),
+            dao.treasurerPayment(wallet2.address, 100000, deployer.address),
+            dao.treasurerPayment(wallet2.address, 0, wallet1.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[0].events.expectSTXTransferEvent(400000, `${deployer.address}.${CONTRACT_NAME}`, wallet2.address);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.ALLOWANCE_EXCEEDED);
+        block.receipts[2].result.expectErr().expectUint(ErrorCode.UNAUTHORIZED);
+        block.receipts[3].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        
+        assertEquals(dao.getTreasurerAllowance(wallet1.address), 600000);
+        assertEquals(dao.getDaoInfo().treasuryBalance, 4600000);
+        let payment = dao.getTreasuryTransaction(2)!;
+        assertEquals(payment.transactionType, "allowance");
+        assertEquals(payment.amount, 400000);
+        assertEquals(payment.to, wallet2.address);
+        assertEquals(payment.proposalId, null);
+        
+        // Payments stop during an emergency pause
+        block = chain.mineBlock([
+            dao.setEmergencyPause(deployer.address),
+            dao.treasurerPayment(wallet2.address, 100000, wallet1.address),
+            dao.resumeOperations(deployer.address)
+        ]);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.EMERGENCY_PAUSE);
+        
+        // The allowance renews every 144 blocks
+        chain.mineEmptyBlock(144);
+        assertEquals(dao.getTreasurerAllowance(wallet1.address), 1000000);
+        block = chain.mineBlock([
+            dao.treasurerPayment(wallet2.address, 1000000, wallet1.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        assertEquals(dao.getDaoInfo().treasuryBalance, 3600000);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure suspended and expelled members lose their roles",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        setupMembers(chain, dao, deployer, 10000, [[wallet1, 1000], [wallet2, 1000]]);
+        
+        let block = chain.mineBlock([
+            dao.depositToTreasury(5000000, deployer.address),
+            dao.grantRole(wallet1.address, "treasurer", deployer.address),
+            dao.grantRole(wallet2.address, "admin", deployer.address),
+            dao.createMemberProposal("Expel Wallet 1", "Misused the allowance", "expel", wallet1.address, 0, deployer.address),
+            dao.createMemberProposal("Suspend Wallet 2", "Pending investigation", "suspend", wallet2.address, 0, deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk());
+        assertEquals(dao.getAdminCount(), 2);
+        
+        block = chain.mineBlock([
+            dao.voteOnProposal(1, true, deployer.address),
+            dao.voteOnProposal(2, true, deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        chain.mineEmptyBlockUntil(dao.getProposal(2)!.executionDelayEnd);
+        block = chain.mineBlock([
+            dao.executeProposal(1, deployer.address),
+            dao.executeProposal(2, deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        
+        // Both roles are revoked and logged
+        assertEquals(dao.getRole(wallet1.address)!.active, false);
+        assertEquals(dao.getRole(wallet2.address)!.active, false);
+        assertEquals(dao.getAdminCount(), 1);
+        assertEquals(dao.getRoleChange(dao.getRoleChangeCount())!.action, "revoke");
+        
+        block = chain.mineBlock([
+            dao.treasurerPayment(wallet1.address, 100000, wallet1.address),
+            dao.pauseOperations("treasury", "Hostile takeover", 0, wallet2.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectErr().expectUint(ErrorCode.UNAUTHORIZED));
+        assertEquals(dao.getDaoInfo().treasuryBalance, 5000000);
+        
+        // The last admin cannot be suspended
+        block = chain.mineBlock([
+            dao.createMemberProposal("Suspend Owner", "Leaves no admin", "suspend", deployer.address, 0, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectUint(3);
+        passProposal(chain, dao, 3, [deployer]);
+        block = chain.mineBlock([
+            dao.executeProposal(3, deployer.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.LAST_ADMIN);
+        assertEquals(dao.getMemberInfo(deployer.address)!.active, true);
+        assertEquals(dao.getRole(deployer.address)!.active, true);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure each pause scope stops only its own operations",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        setupMembers(chain, dao, deployer, 10000, [[wallet1, 1000], [wallet2, 1000]]);
+        
+        let block = chain.mineBlock([
+            dao.depositToTreasury(5000000, deployer.address),
+            dao.grantRole(wallet2.address, "treasurer", deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk());
+        
+        const scopes: PauseScope[] = ["voting", "treasury", "tokens", "all"];
+        block = chain.mineBlock(scopes.map((scope) =>
+            dao.createProposal(`Vote while ${scope} is paused`, "Pause scope test", "text", null, 0, deployer.address)));
+        block.receipts.forEach((receipt) => receipt.result.expectOk());
+        
+        scopes.forEach((scope, index) => {
+            block = chain.mineBlock([
+                dao.pauseOperations(scope, "Scope test", 0, deployer.address)
+            ]);
+            block.receipts[0].result.expectOk().expectBool(true);
+            assertEquals(dao.getDaoInfo().emergencyPause, true);
+            
+            // Operation name, its scope and the call
+            const operations: [string, PauseScope, Tx][] = [
+                ["create-proposal", "voting", dao.createProposal("Paused", "Scope test", "text", null, 0, wallet1.address)],
+                ["vote-on-proposal", "voting", dao.voteOnProposal(index + 1, true, wallet1.address)],
+                ["delegate-votes", "voting", dao.delegateVotes(wallet1.address, deployer.address)],
+                ["transfer-tokens", "tokens", dao.transferTokens(wallet2.address, 10, wallet1.address)],
+                ["deposit-to-treasury", "treasury", dao.depositToTreasury(1000, wallet1.address)],
+                ["treasurer-payment", "treasury", dao.treasurerPayment(wallet1.address, 1000, wallet2.address)]
+            ];
+            block = chain.mineBlock(operations.map(([, , tx]) => tx));
+            operations.forEach(([name, operationScope], i) => {
+                let result = block.receipts[i].result;
+                if (scope === "all" || scope === operationScope) {
+                    assertEquals(result, `(err u${ErrorCode.EMERGENCY_PAUSE})`, `${name} under ${scope} pause`);
+                } else {
+                    assertEquals(result.startsWith("(ok "), true, `${name} under ${scope} pause: ${result}`);
+                }
+            });
+            
+            block = chain.mineBlock([
+                dao.resumeScope(scope, deployer.address)
+            ]);
+            block.receipts[0].result.expectOk().expectBool(true);
+            assertEquals(dao.getDaoInfo().emergencyPause, false);
+        });
+    },
+});
+
+Clarinet.test({
+    name: "Ensure treasury pauses stop treasury proposals and voting pauses stop all execution",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        setupMembers(chain, dao, deployer, 10000, [[wallet1, 1000]]);
+        
+        let block = chain.mineBlock([
+            dao.depositToTreasury(5000000, deployer.address),
+            dao.createProposal("Grant", "Treasury payout", "treasury", wallet1.address, 1000000, deployer.address),
+            dao.createProposal("Signal", "Text proposal", "text", null, 0, deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk());
+        block = chain.mineBlock([
+            dao.voteOnProposal(1, true, deployer.address),
+            dao.voteOnProposal(2, true, deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        chain.mineEmptyBlockUntil(dao.getProposal(1)!.executionDelayEnd);
+        
+        block = chain.mineBlock([
+            dao.pauseOperations("treasury", "Treasury audit", 0, deployer.address),
+            dao.executeProposal(1, wallet1.address),
+            dao.executeProposal(2, wallet1.address)
+        ]);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.EMERGENCY_PAUSE);
+        block.receipts[2].result.expectOk().expectBool(true);
+        assertEquals(dao.getProposal(1)!.status, "active");
+        
+        block = chain.mineBlock([
+            dao.resumeScope("treasury", deployer.address),
+            dao.pauseOperations("voting", "Governance attack", 0, deployer.address),
+            dao.executeProposal(1, wallet1.address)
+        ]);
+        block.receipts[2].result.expectErr().expectUint(ErrorCode.EMERGENCY_PAUSE);
+        
+        // Finalizing and cancelling stay available while paused
+        block = chain.mineBlock([
+            dao.finalizeProposal(1, wallet1.address),
+            dao.cancelProposal(1, "Attack in progress", deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectAscii("passed");
+        block.receipts[1].result.expectOk().expectBool(true);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure pauses record their reason, expire automatically and are logged",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        setupMembers(chain, dao, deployer, 10000, [[wallet1, 1000]]);
+        
+        let block = chain.mineBlock([
+            dao.pauseOperations("treasury", "Suspicious deposit", 10, wallet1.address),
+            dao.pauseOperations("bridge" as PauseScope, "Unknown scope", 10, deployer.address),
+            dao.pauseOperations("treasury", "", 10, deployer.address),
+            dao.pauseOperations("treasury", "Suspicious deposit", 10, deployer.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.UNAUTHORIZED);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        block.receipts[2].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        block.receipts[3].result.expectOk().expectBool(true);
+        
+        let pausedAt = block.height;
+        assertEquals(dao.getPause("treasury"), {
+            reason: "Suspicious deposit",
+            pausedBy: deployer.address,
+            pausedAt: pausedAt,
+            expiresAt: pausedAt + 10
+        });
+        assertEquals(dao.isScopePaused("treasury"), true);
+        assertEquals(dao.isScopePaused("voting"), false);
+        
+        block = chain.mineBlock([
+            dao.depositToTreasury(1000, wallet1.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.EMERGENCY_PAUSE);
+        
+        // The pause lifts itself once it expires
+        chain.mineEmptyBlockUntil(pausedAt + 10);
+        block = chain.mineBlock([
+            dao.depositToTreasury(1000, wallet1.address),
+            dao.resumeScope("treasury", deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        assertEquals(dao.getPause("treasury"), null);
+        assertEquals(dao.getDaoInfo().emergencyPause, false);
+        
+        // Resuming operations lifts every active scope
+        block = chain.mineBlock([
+            dao.setEmergencyPause(deployer.address),
+            dao.pauseOperations("tokens", "Token migration", 0, deployer.address),
+            dao.resumeOperations(deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        assertEquals(dao.isScopePaused("tokens"), false);
+        
+        assertEquals(dao.getPauseEventCount(), 5);
+        assertEquals(dao.getPauseEvent(1), {
+            action: "pause",
+            scope: "treasury",
+            reason: "Suspicious deposit",
+            account: deployer.address,
+            blockHeight: pausedAt,
+            expiresAt: pausedAt + 10
+        });
+        assertEquals(dao.getPauseEvent(2)!.reason, "Emergency pause");
+        assertEquals(dao.getPauseEvent(2)!.scope, "all");
+        assertEquals(dao.getPauseEvent(4), {
+            action: "resume",
+            scope: "all",
+            reason: "",
+            account: deployer.address,
+            blockHeight: block.height,
+            expiresAt: null
+        });
+        assertEquals(dao.getPauseEvent(5)!.scope, "tokens");
     },
 });
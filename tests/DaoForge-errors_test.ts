@@ -0,0 +1,99 @@
+
+import { Clarinet, Chain, Account } from 'https://deno.land/x/clarinet@v0.14.0/index.ts';
+import { assert, assertEquals, assertThrows } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import {
+    DaoForgeClient,
+    DaoForgeError,
+    ErrorCode,
+    InsufficientTokensError,
+    UnauthorizedError,
+    UnknownDaoForgeError,
+    constantName,
+    decodeError,
+    decodeUint,
+} from '../client/DaoForge-client.ts';
+import type { ErrorCodeName } from '../client/DaoForge-client.ts';
+
+const CONTRACT_PATH = "contracts/DaoForge-contract.clar";
+
+function contractErrorConstants(): Map<string, number> {
+    const source = Deno.readTextFileSync(CONTRACT_PATH);
+    const constants = new Map<string, number>();
+    for (const match of source.matchAll(/\(define-constant (ERR-[A-Z0-9-]+) \(err u(\d+)\)\)/g)) {
+        constants.set(match[1], Number(match[2]));
+    }
+    return constants;
+}
+
+Clarinet.test({
+    name: "Ensure client error codes match the contract ERR-* constants",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let constants = contractErrorConstants();
+        let names = Object.keys(ErrorCode) as ErrorCodeName[];
+        
+        // Every contract constant is known to the client with the same code
+        assertEquals(constants.size, names.length);
+        for (const name of names) {
+            assertEquals(constants.get(constantName(name)), ErrorCode[name], constantName(name));
+        }
+        
+        // Every code decodes to a dedicated subclass
+        for (const name of names) {
+            let error = decodeError(ErrorCode[name], "test");
+            assert(error instanceof DaoForgeError);
+            assert(!(error instanceof UnknownDaoForgeError), `${name} has no error class`);
+            assertEquals(error.code, ErrorCode[name]);
+        }
+    },
+});
+
+Clarinet.test({
+    name: "Ensure failed calls surface typed DaoForge errors",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        
+        // Non-owner initialization raises UnauthorizedError
+        let error = assertThrows(
+            () => dao.submit(dao.initializeDao("Typed Error DAO", "Should fail", 1000, wallet1.address)),
+            UnauthorizedError,
+        ) as DaoForgeError;
+        assertEquals(error.code, 100);
+        assertEquals(error.functionName, "initialize-dao");
+        assert(error instanceof DaoForgeError);
+        
+        // Successful calls return the ok value
+        assertEquals(dao.submit(dao.initializeDao("Typed Error DAO", "Errors", 1000, deployer.address)), "true");
+        
+        // Overdrawn transfers raise InsufficientTokensError
+        error = assertThrows(
+            () => dao.submit(dao.transferTokens(wallet1.address, 5000, deployer.address)),
+            InsufficientTokensError,
+            "transfer-tokens failed",
+        ) as DaoForgeError;
+        assertEquals(error.code, ErrorCode.INSUFFICIENT_TOKENS);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure unrecognised error codes decode to UnknownDaoForgeError",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        // e.g. u1 from a failed stx-transfer? inside deposit-to-treasury
+        let error = decodeError(1, "deposit-to-treasury");
+        assert(error instanceof UnknownDaoForgeError);
+        assertEquals(error.code, 1);
+        assertEquals(error.functionName, "deposit-to-treasury");
+    },
+});
+
+Clarinet.test({
+    name: "Ensure uint decoding throws instead of losing precision",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        assertEquals(decodeUint(`u${Number.MAX_SAFE_INTEGER}`), Number.MAX_SAFE_INTEGER);
+        assertThrows(() => decodeUint(`u${BigInt(Number.MAX_SAFE_INTEGER) + 1n}`), RangeError);
+        // The largest Clarity uint
+        assertThrows(() => decodeUint("u340282366920938463463374607431768211455"), RangeError, "MAX_SAFE_INTEGER");
+        assertThrows(() => decodeUint("-1"), Error, "Expected uint");
+    },
+});
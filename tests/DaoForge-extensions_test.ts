@@ -0,0 +1,148 @@
+import { Clarinet, Tx, Chain, Account, types } from 'https://deno.land/x/clarinet@v0.14.0/index.ts';
+import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import { DaoForgeClient, ErrorCode, decodeUint } from '../client/DaoForge-client.ts';
+
+const ANNOUNCEMENT_EXTENSION = "announcement-extension";
+const MOCK_EXECUTOR = "mock-executor";
+
+function extension(deployer: Account, name: string): string {
+    return `${deployer.address}.${name}`;
+}
+
+function setExecutorFailure(fail: boolean, sender: string): Tx {
+    return Tx.contractCall(MOCK_EXECUTOR, "set-should-fail", [types.bool(fail)], sender);
+}
+
+function executionCount(chain: Chain, account: string): number {
+    return decodeUint(chain.callReadOnlyFn(MOCK_EXECUTOR, "get-execution-count", [], account).result);
+}
+
+function initializeDao(chain: Chain, dao: DaoForgeClient, deployer: Account) {
+    let block = chain.mineBlock([
+        dao.initializeDao("Extensible DAO", "Testing executor extensions", 10000, deployer.address)
+    ]);
+    block.receipts[0].result.expectOk().expectBool(true);
+}
+
+function passProposals(chain: Chain, dao: DaoForgeClient, deployer: Account, proposalIds: number[]) {
+    let block = chain.mineBlock(proposalIds.map((id) => dao.voteOnProposal(id, true, deployer.address)));
+    block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+    chain.mineEmptyBlockUntil(dao.getProposal(proposalIds[proposalIds.length - 1])!.executionDelayEnd);
+}
+
+// Allow an extension through an executed "extension" proposal
+function allowExtension(chain: Chain, dao: DaoForgeClient, deployer: Account, contract: string) {
+    let block = chain.mineBlock([
+        dao.createExtensionProposal("Allow Extension", "Let actions invoke it", "add", contract, deployer.address)
+    ]);
+    let proposalId = decodeUint(block.receipts[0].result.expectOk());
+    passProposals(chain, dao, deployer, [proposalId]);
+    block = chain.mineBlock([dao.executeProposal(proposalId, deployer.address)]);
+    block.receipts[0].result.expectOk().expectBool(true);
+}
+
+Clarinet.test({
+    name: "Ensure action proposals invoke allowed extensions as the DAO",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        let announcements = extension(deployer, ANNOUNCEMENT_EXTENSION);
+        initializeDao(chain, dao, deployer);
+        
+        // Only allowed extensions can be targeted, and only through their own constructors
+        let block = chain.mineBlock([
+            dao.createActionProposal("Announce", "Not allowed yet", announcements, deployer.address),
+            dao.createExtensionProposal("Remove Extension", "Not allowed yet", "remove", announcements, deployer.address),
+            dao.createProposal("Untyped Action", "Missing extension check", "action", announcements, 0, deployer.address),
+            dao.createExtensionProposal("Allow Extension", "Let actions invoke it", "add", announcements, deployer.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        block.receipts[2].result.expectErr().expectUint(ErrorCode.INVALID_PROPOSAL);
+        block.receipts[3].result.expectOk().expectUint(1);
+        assertEquals(dao.getExtensionAction(1), "add");
+        
+        passProposals(chain, dao, deployer, [1]);
+        block = chain.mineBlock([dao.executeProposal(1, deployer.address)]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        assertEquals(dao.getAllowedExtension(announcements), { addedAt: block.height, proposalId: 1 });
+        
+        block = chain.mineBlock([
+            dao.createActionProposal("Partnership Launch", "Announce the partnership", announcements, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectUint(2);
+        assertEquals(dao.getProposal(2)!.proposalType, "action");
+        assertEquals(dao.getProposal(2)!.target, announcements);
+        passProposals(chain, dao, deployer, [2]);
+        
+        // Actions need the extension passed in, and it must be the one voted on
+        block = chain.mineBlock([
+            dao.executeProposal(2, deployer.address),
+            dao.executeActionProposal(2, extension(deployer, MOCK_EXECUTOR), deployer.address),
+            dao.executeActionProposal(1, announcements, deployer.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.INVALID_PROPOSAL);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        block.receipts[2].result.expectErr().expectUint(ErrorCode.PROPOSAL_NOT_ACTIVE);
+        
+        block = chain.mineBlock([dao.executeActionProposal(2, announcements, deployer.address)]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[0].events.expectPrintEvent(announcements, `{event: "announcement", proposal-id: u2, title: u"Partnership Launch"}`);
+        assertEquals(dao.getProposal(2)!.status, "executed");
+        let announcement = chain.callReadOnlyFn(ANNOUNCEMENT_EXTENSION, "get-announcement", [types.uint(1)], deployer.address);
+        assertEquals(announcement.result.expectSome().expectTuple()["title"], `u"Partnership Launch"`);
+        
+        // The extension only answers to the DAO
+        block = chain.mineBlock([
+            Tx.contractCall(ANNOUNCEMENT_EXTENSION, "execute", [types.uint(2)], deployer.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(100);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure failing executors and removed extensions leave action proposals unexecuted",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        let executor = extension(deployer, MOCK_EXECUTOR);
+        initializeDao(chain, dao, deployer);
+        allowExtension(chain, dao, deployer, executor);
+        
+        let block = chain.mineBlock([
+            dao.createActionProposal("Run Executor", "Fails the first time", executor, deployer.address),
+            dao.createActionProposal("Run Executor Again", "Blocked by the removal", executor, deployer.address),
+            dao.createExtensionProposal("Remove Executor", "No longer trusted", "remove", executor, deployer.address),
+            setExecutorFailure(true, deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk());
+        passProposals(chain, dao, deployer, [2, 3, 4]);
+        let reputation = dao.getReputation(deployer.address);
+        
+        // The executor's failure rolls back the execution, including its own writes
+        block = chain.mineBlock([dao.executeActionProposal(2, executor, deployer.address)]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.EXECUTION_FAILED);
+        assertEquals(executionCount(chain, deployer.address), 0);
+        assertEquals(dao.getProposal(2)!.executedAt, null);
+        assertEquals(dao.getProposalResult(2).status, "passed");
+        assertEquals(dao.getReputation(deployer.address), reputation);
+        
+        block = chain.mineBlock([
+            setExecutorFailure(false, deployer.address),
+            dao.executeActionProposal(2, executor, deployer.address)
+        ]);
+        block.receipts[1].result.expectOk().expectBool(true);
+        assertEquals(executionCount(chain, deployer.address), 1);
+        assertEquals(dao.getProposal(2)!.executedAt, block.height);
+        
+        // Once removed, the extension can no longer be invoked by proposals already passed
+        block = chain.mineBlock([
+            dao.executeProposal(4, deployer.address),
+            dao.executeActionProposal(3, executor, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        assertEquals(dao.getAllowedExtension(executor), null);
+        assertEquals(executionCount(chain, deployer.address), 1);
+    },
+});
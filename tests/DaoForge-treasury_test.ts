@@ -0,0 +1,888 @@
+import { Clarinet, Tx, Chain, Account, types } from 'https://deno.land/x/clarinet@v0.14.0/index.ts';
+import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import { CONTRACT_NAME, DaoForgeClient, ErrorCode, decodeUint } from '../client/DaoForge-client.ts';
+
+const MOCK_TOKEN = "mock-token";
+
+function mockToken(deployer: Account): string {
+    return `${deployer.address}.${MOCK_TOKEN}`;
+}
+
+function mintMockTokens(amount: number, recipient: string, sender: string): Tx {
+    return Tx.contractCall(MOCK_TOKEN, "mint", [types.uint(amount), types.principal(recipient)], sender);
+}
+
+function mockTokenBalance(chain: Chain, account: string): number {
+    return decodeUint(chain.callReadOnlyFn(MOCK_TOKEN, "get-balance", [types.principal(account)], account).result.expectOk());
+}
+
+function voteAndWait(chain: Chain, dao: DaoForgeClient, deployer: Account, proposalId: number) {
+    let block = chain.mineBlock([dao.voteOnProposal(proposalId, true, deployer.address)]);
+    block.receipts[0].result.expectOk().expectBool(true);
+    chain.mineEmptyBlockUntil(dao.getProposal(proposalId)!.executionDelayEnd);
+}
+
+// Whitelist the mock token through an executed "asset" proposal
+function whitelistMockToken(chain: Chain, dao: DaoForgeClient, deployer: Account) {
+    let block = chain.mineBlock([
+        dao.createAssetProposal("List MOCK", "Accept MOCK deposits", "add", mockToken(deployer), deployer.address)
+    ]);
+    let proposalId = decodeUint(block.receipts[0].result.expectOk());
+    voteAndWait(chain, dao, deployer, proposalId);
+    block = chain.mineBlock([dao.executeProposal(proposalId, deployer.address)]);
+    block.receipts[0].result.expectOk().expectBool(true);
+}
+
+Clarinet.test({
+    name: "Ensure executed STX treasury proposals pay the target from the contract",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        
+        let block = chain.mineBlock([
+            dao.initializeDao("Treasury DAO", "Testing payouts", 10000, deployer.address),
+            dao.depositToTreasury(5000, wallet1.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        
+        block = chain.mineBlock([
+            dao.createProposal("Pay Wallet 2", "Grant", "treasury", wallet2.address, 3000, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectUint(1);
+        
+        voteAndWait(chain, dao, deployer, 1);
+        block = chain.mineBlock([dao.executeProposal(1, deployer.address)]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[0].events.expectSTXTransferEvent(3000, `${deployer.address}.${CONTRACT_NAME}`, wallet2.address);
+        
+        assertEquals(dao.getDaoInfo().treasuryBalance, 2000);
+        let payout = dao.getTreasuryTransaction(2)!;
+        assertEquals(payout.transactionType, "transfer");
+        assertEquals(payout.to, wallet2.address);
+        assertEquals(payout.proposalId, 1);
+        assertEquals(payout.asset, null);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure SIP-010 assets are whitelisted and delisted through asset proposals",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        let token = mockToken(deployer);
+        
+        let block = chain.mineBlock([
+            dao.initializeDao("Treasury DAO", "Testing the asset whitelist", 10000, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        
+        block = chain.mineBlock([
+            dao.createProposal("List MOCK", "Generic constructor", "asset", token, 0, deployer.address),
+            dao.createAssetProposal("List MOCK", "Unknown action", "list", token, deployer.address),
+            dao.createAssetProposal("Delist MOCK", "Not listed yet", "remove", token, deployer.address),
+            dao.createAssetProposal("List MOCK", "Accept MOCK deposits", "add", token, deployer.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.INVALID_PROPOSAL);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        block.receipts[2].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        block.receipts[3].result.expectOk().expectUint(1);
+        
+        assertEquals(dao.getProposal(1)!.proposalType, "asset");
+        assertEquals(dao.getProposal(1)!.target, token);
+        assertEquals(dao.getAssetAction(1), "add");
+        assertEquals(dao.getWhitelistedAsset(token), null);
+        
+        voteAndWait(chain, dao, deployer, 1);
+        block = chain.mineBlock([dao.executeProposal(1, deployer.address)]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        assertEquals(dao.getWhitelistedAsset(token), { addedAt: block.height, proposalId: 1 });
+        
+        // Listing twice is rejected, delisting is now allowed
+        block = chain.mineBlock([
+            dao.createAssetProposal("List MOCK", "Already listed", "add", token, deployer.address),
+            dao.createAssetProposal("Delist MOCK", "Stop accepting MOCK", "remove", token, deployer.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        block.receipts[1].result.expectOk().expectUint(2);
+        
+        voteAndWait(chain, dao, deployer, 2);
+        block = chain.mineBlock([dao.executeProposal(2, deployer.address)]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        assertEquals(dao.getWhitelistedAsset(token), null);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure only whitelisted SIP-010 assets can be deposited to the treasury",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        let token = mockToken(deployer);
+        
+        let block = chain.mineBlock([
+            dao.initializeDao("Treasury DAO", "Testing asset deposits", 10000, deployer.address),
+            mintMockTokens(5000, wallet1.address, wallet1.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        
+        block = chain.mineBlock([dao.depositAsset(token, 1000, wallet1.address)]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        
+        whitelistMockToken(chain, dao, deployer);
+        
+        block = chain.mineBlock([
+            dao.depositAsset(token, 0, wallet1.address),
+            dao.depositAsset(token, 6000, wallet1.address),
+            dao.depositAsset(token, 1500, wallet1.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        block.receipts[1].result.expectErr().expectUint(1); // mock-token: insufficient balance
+        block.receipts[2].result.expectOk().expectBool(true);
+        block.receipts[2].events.expectFungibleTokenTransferEvent(
+            1500, wallet1.address, `${deployer.address}.${CONTRACT_NAME}`, `${token}::${MOCK_TOKEN}`);
+        
+        assertEquals(dao.getTreasuryAssetBalance(token), 1500);
+        assertEquals(mockTokenBalance(chain, wallet1.address), 3500);
+        // STX treasury is untouched
+        assertEquals(dao.getDaoInfo().treasuryBalance, 0);
+        
+        let deposit = dao.getTreasuryTransaction(1)!;
+        assertEquals(deposit.transactionType, "deposit");
+        assertEquals(deposit.amount, 1500);
+        assertEquals(deposit.from, wallet1.address);
+        assertEquals(deposit.asset, token);
+        
+        // Deposits follow the treasury pause
+        block = chain.mineBlock([
+            dao.pauseOperations("treasury", "Audit", 0, deployer.address),
+            dao.depositAsset(token, 500, wallet1.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.EMERGENCY_PAUSE);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure SIP-010 treasury proposals pay out through the matching token contract",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        let token = mockToken(deployer);
+        let daoToken = `${deployer.address}.${CONTRACT_NAME}`;
+        
+        let block = chain.mineBlock([
+            dao.initializeDao("Treasury DAO", "Testing asset payouts", 10000, deployer.address),
+            mintMockTokens(5000, wallet1.address, wallet1.address),
+            dao.createAssetTreasuryProposal("Pay in MOCK", "Not listed", token, wallet2.address, 1000, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[1].result.expectOk().expectBool(true);
+        block.receipts[2].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        
+        whitelistMockToken(chain, dao, deployer);
+        
+        block = chain.mineBlock([
+            dao.depositAsset(token, 3000, wallet1.address),
+            dao.createAssetTreasuryProposal("Pay in MOCK", "Zero amount", token, wallet2.address, 0, deployer.address),
+            dao.createAssetTreasuryProposal("Pay in MOCK", "Grant", token, wallet2.address, 2000, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        block.receipts[2].result.expectOk().expectUint(2);
+        
+        assertEquals(dao.getProposal(2)!.proposalType, "treasury");
+        assertEquals(dao.getProposalAsset(2), token);
+        
+        voteAndWait(chain, dao, deployer, 2);
+        block = chain.mineBlock([
+            // STX execution and a different SIP-010 contract are both rejected
+            dao.executeProposal(2, deployer.address),
+            dao.executeAssetTreasuryProposal(2, daoToken, deployer.address),
+            dao.pauseOperations("treasury", "Audit", 0, deployer.address),
+            dao.executeAssetTreasuryProposal(2, token, deployer.address),
+            dao.resumeScope("treasury", deployer.address),
+            dao.executeAssetTreasuryProposal(2, token, deployer.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.INVALID_PROPOSAL);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        block.receipts[3].result.expectErr().expectUint(ErrorCode.EMERGENCY_PAUSE);
+        block.receipts[5].result.expectOk().expectBool(true);
+        block.receipts[5].events.expectFungibleTokenTransferEvent(2000, daoToken, wallet2.address, `${token}::${MOCK_TOKEN}`);
+        
+        assertEquals(dao.getProposal(2)!.status, "executed");
+        assertEquals(dao.getTreasuryAssetBalance(token), 1000);
+        assertEquals(mockTokenBalance(chain, wallet2.address), 2000);
+        
+        let payout = dao.getTreasuryTransaction(2)!;
+        assertEquals(payout.transactionType, "transfer");
+        assertEquals(payout.amount, 2000);
+        assertEquals(payout.to, wallet2.address);
+        assertEquals(payout.proposalId, 2);
+        assertEquals(payout.asset, token);
+        
+        block = chain.mineBlock([dao.executeAssetTreasuryProposal(2, token, deployer.address)]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.PROPOSAL_NOT_ACTIVE);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure batch treasury proposals pay every recipient atomically",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let wallet3 = accounts.get("wallet_3")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        let contract = `${deployer.address}.${CONTRACT_NAME}`;
+        let payouts = [
+            { recipient: wallet1.address, amount: 1000 },
+            { recipient: wallet2.address, amount: 2500 },
+            { recipient: wallet3.address, amount: 500 },
+        ];
+        
+        let block = chain.mineBlock([
+            dao.initializeDao("Treasury DAO", "Testing batch payouts", 10000, deployer.address),
+            dao.depositToTreasury(3000, deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        
+        block = chain.mineBlock([
+            dao.createBatchTreasuryProposal("Grants round", "Nobody to pay", [], deployer.address),
+            dao.createBatchTreasuryProposal("Grants round", "Zero payout", [
+                { recipient: wallet1.address, amount: 1000 },
+                { recipient: wallet2.address, amount: 0 },
+            ], deployer.address),
+            dao.createBatchTreasuryProposal("Grants round", "Q3 grants", payouts, deployer.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        block.receipts[2].result.expectOk().expectUint(1);
+        
+        let proposal = dao.getProposal(1)!;
+        assertEquals(proposal.proposalType, "treasury");
+        assertEquals(proposal.target, null);
+        assertEquals(proposal.amount, 4000);
+        assertEquals(dao.getProposalPayouts(1), payouts);
+        
+        // The total is checked against the treasury before anyone is paid
+        voteAndWait(chain, dao, deployer, 1);
+        block = chain.mineBlock([dao.executeProposal(1, deployer.address)]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.INSUFFICIENT_TOKENS);
+        assertEquals(dao.getDaoInfo().treasuryBalance, 3000);
+        
+        block = chain.mineBlock([
+            dao.depositToTreasury(1000, deployer.address),
+            dao.executeProposal(1, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[1].result.expectOk().expectBool(true);
+        assertEquals(block.receipts[1].events.length, 3);
+        block.receipts[1].events.expectSTXTransferEvent(1000, contract, wallet1.address);
+        block.receipts[1].events.expectSTXTransferEvent(2500, contract, wallet2.address);
+        block.receipts[1].events.expectSTXTransferEvent(500, contract, wallet3.address);
+        assertEquals(dao.getDaoInfo().treasuryBalance, 0);
+        
+        // One transaction row per recipient, all linked to the proposal
+        payouts.forEach((payout, index) => {
+            let row = dao.getTreasuryTransaction(index + 3)!;
+            assertEquals(row.transactionType, "transfer");
+            assertEquals(row.amount, payout.amount);
+            assertEquals(row.from, contract);
+            assertEquals(row.to, payout.recipient);
+            assertEquals(row.proposalId, 1);
+        });
+        assertEquals(dao.getTreasuryTransaction(6), null);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure payment streams reserve treasury funds and accrue every block",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        let contract = `${deployer.address}.${CONTRACT_NAME}`;
+        
+        let block = chain.mineBlock([
+            dao.initializeDao("Treasury DAO", "Testing streams", 10000, deployer.address),
+            dao.depositToTreasury(5000, deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        
+        let start = chain.blockHeight + 2000;
+        let end = start + 100;
+        block = chain.mineBlock([
+            dao.createProposal("Stream", "Generic constructor", "stream", wallet1.address, 1000, deployer.address),
+            dao.createStreamProposal("Stream", "Ends before it starts", wallet1.address, "stream", 10, 1, end, start, deployer.address),
+            dao.createStreamProposal("Stream", "Streams accrue per block", wallet1.address, "stream", 10, 5, start, end, deployer.address),
+            dao.createStreamProposal("Stream", "Starts before execution", wallet1.address, "stream", 10, 1, 1, end, deployer.address),
+            dao.createStreamProposal("Stream", "Zero rate", wallet1.address, "stream", 0, 1, start, end, deployer.address),
+            dao.createStreamProposal("Stream", "Monthly contributor pay", wallet1.address, "stream", 10, 1, start, end, deployer.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.INVALID_PROPOSAL);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        block.receipts[2].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        block.receipts[3].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        block.receipts[4].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        block.receipts[5].result.expectOk().expectUint(1);
+        
+        assertEquals(dao.getProposal(1)!.proposalType, "stream");
+        assertEquals(dao.getProposal(1)!.amount, 1000);
+        assertEquals(dao.getStreamTerms(1), { kind: "stream", rate: 10, period: 1, start, end });
+        
+        voteAndWait(chain, dao, deployer, 1);
+        block = chain.mineBlock([dao.executeProposal(1, deployer.address)]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        
+        // The whole stream is reserved up front
+        assertEquals(dao.getStreamCount(), 1);
+        assertEquals(dao.getDaoInfo().treasuryBalance, 4000);
+        assertEquals(dao.getStreamReserve(), 1000);
+        assertEquals(dao.getStream(1), {
+            kind: "stream",
+            rate: 10,
+            period: 1,
+            start,
+            end,
+            recipient: wallet1.address,
+            total: 1000,
+            claimed: 0,
+            proposalId: 1,
+            cancelledAt: null,
+        });
+        
+        block = chain.mineBlock([
+            dao.claimStream(1, wallet1.address),
+            dao.claimStream(2, wallet1.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.INSUFFICIENT_TOKENS);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        
+        chain.mineEmptyBlockUntil(start + 30);
+        block = chain.mineBlock([
+            dao.claimStream(1, wallet2.address),
+            dao.claimStream(1, wallet1.address)
+        ]);
+        let accrued = 10 * (block.height - start);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.UNAUTHORIZED);
+        block.receipts[1].result.expectOk().expectUint(accrued);
+        block.receipts[1].events.expectSTXTransferEvent(accrued, contract, wallet1.address);
+        assertEquals(dao.getStreamReserve(), 1000 - accrued);
+        
+        let claim = dao.getTreasuryTransaction(2)!;
+        assertEquals(claim.transactionType, "stream-claim");
+        assertEquals(claim.amount, accrued);
+        assertEquals(claim.to, wallet1.address);
+        assertEquals(claim.proposalId, 1);
+        
+        // Nothing accrues past the end block
+        chain.mineEmptyBlockUntil(end + 50);
+        assertEquals(dao.getStreamBalance(1), { accrued: 1000, unaccrued: 0, claimed: accrued, claimable: 1000 - accrued });
+        block = chain.mineBlock([dao.claimStream(1, wallet1.address)]);
+        block.receipts[0].result.expectOk().expectUint(1000 - accrued);
+        assertEquals(dao.getStreamReserve(), 0);
+        assertEquals(dao.getDaoInfo().treasuryBalance, 4000);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure recurring budgets release each period and cancellation returns unspent funds",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        
+        let block = chain.mineBlock([
+            dao.initializeDao("Treasury DAO", "Testing budgets", 10000, deployer.address),
+            dao.depositToTreasury(1000, deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        
+        // Four periods of 500 blocks, 300 STX each
+        let start = chain.blockHeight + 1200;
+        let end = start + 2000;
+        block = chain.mineBlock([
+            dao.createStreamProposal("Budget", "Uneven periods", wallet1.address, "budget", 300, 300, start, end, deployer.address),
+            dao.createStreamProposal("Budget", "Events budget", wallet1.address, "budget", 300, 500, start, end, deployer.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        block.receipts[1].result.expectOk().expectUint(1);
+        assertEquals(dao.getProposal(1)!.amount, 1200);
+        
+        // The treasury must cover the whole budget
+        voteAndWait(chain, dao, deployer, 1);
+        block = chain.mineBlock([dao.executeProposal(1, deployer.address)]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.INSUFFICIENT_TOKENS);
+        block = chain.mineBlock([
+            dao.depositToTreasury(500, deployer.address),
+            dao.executeProposal(1, deployer.address)
+        ]);
+        block.receipts[1].result.expectOk().expectBool(true);
+        assertEquals(dao.getDaoInfo().treasuryBalance, 300);
+        
+        // The first period is available as soon as the budget starts
+        chain.mineEmptyBlockUntil(start);
+        block = chain.mineBlock([dao.claimStream(1, wallet1.address)]);
+        block.receipts[0].result.expectOk().expectUint(300);
+        
+        block = chain.mineBlock([
+            dao.createStreamCancellationProposal("Stop budget", "No more events", 2, deployer.address),
+            dao.createStreamCancellationProposal("Stop budget", "No more events", 1, deployer.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        block.receipts[1].result.expectOk().expectUint(2);
+        assertEquals(dao.getStreamCancellation(2), 1);
+        assertEquals(dao.getProposal(2)!.target, wallet1.address);
+        
+        voteAndWait(chain, dao, deployer, 2);
+        block = chain.mineBlock([dao.executeProposal(2, deployer.address)]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        
+        // Periods released before cancellation stay claimable, the rest returns to the treasury
+        let released = 300 * (Math.floor((block.height - start) / 500) + 1);
+        let stream = dao.getStream(1)!;
+        assertEquals(stream.total, released);
+        assertEquals(stream.cancelledAt, block.height);
+        assertEquals(dao.getDaoInfo().treasuryBalance, 300 + 1200 - released);
+        assertEquals(dao.getStreamReserve(), released - 300);
+        
+        chain.mineEmptyBlockUntil(end + 10);
+        block = chain.mineBlock([
+            dao.claimStream(1, wallet1.address),
+            dao.claimStream(1, wallet1.address),
+            dao.createStreamCancellationProposal("Stop budget", "Already stopped", 1, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectUint(released - 300);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.INSUFFICIENT_TOKENS);
+        block.receipts[2].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        assertEquals(dao.getStreamReserve(), 0);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure treasury spending limits reject oversized proposals at creation",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        
+        let block = chain.mineBlock([
+            dao.initializeDao("Treasury DAO", "Testing spending limits", 10000, deployer.address),
+            dao.depositToTreasury(100000, deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        assertEquals(dao.getSpendingLimits(), {
+            maxSpendPercentage: 0,
+            periodSpendCap: 0,
+            spendPeriod: 4320,
+            largeSpendPercent: 0,
+            largeSpendQuorum: 40,
+        });
+        
+        // Limits are set through parameter proposals
+        block = chain.mineBlock([
+            dao.createParameterProposal("Limits", "Out of range", "max-spend-percentage", 101, deployer.address),
+            dao.createParameterProposal("Limits", "Out of range", "spend-period", 0, deployer.address),
+            dao.createParameterProposal("Limits", "Per proposal", "max-spend-percentage", 10, deployer.address),
+            dao.createParameterProposal("Limits", "Per period", "period-spend-cap", 15000, deployer.address),
+            dao.createParameterProposal("Limits", "Period length", "spend-period", 1000, deployer.address),
+            dao.createParameterProposal("Limits", "Large spends", "large-spend-percent", 5, deployer.address),
+            dao.createParameterProposal("Limits", "Large quorum", "large-spend-quorum", 60, deployer.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        const parameterProposals = [1, 2, 3, 4, 5];
+        chain.mineBlock(parameterProposals.map((id) => dao.voteOnProposal(id, true, deployer.address)));
+        chain.mineEmptyBlockUntil(dao.getProposal(5)!.executionDelayEnd);
+        block = chain.mineBlock(parameterProposals.map((id) => dao.executeProposal(id, deployer.address)));
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        assertEquals(dao.getSpendingLimits(), {
+            maxSpendPercentage: 10,
+            periodSpendCap: 15000,
+            spendPeriod: 1000,
+            largeSpendPercent: 5,
+            largeSpendQuorum: 60,
+        });
+        
+        let start = chain.blockHeight + 2000;
+        block = chain.mineBlock([
+            dao.createProposal("Grant", "Over 10% of the treasury", "treasury", wallet1.address, 10001, deployer.address),
+            dao.createBatchTreasuryProposal("Grants", "Over the period cap", [
+                { recipient: wallet1.address, amount: 9000 },
+                { recipient: wallet2.address, amount: 9000 },
+            ], deployer.address),
+            dao.createStreamProposal("Stream", "Over 10% in total", wallet1.address, "stream", 100, 1, start, start + 200, deployer.address),
+            dao.createProposal("Grant", "Small spend", "treasury", wallet1.address, 4000, deployer.address),
+            dao.createProposal("Grant", "Large spend", "treasury", wallet1.address, 8000, deployer.address),
+            dao.createProposal("Grant", "Large spend", "treasury", wallet2.address, 9000, deployer.address),
+            dao.createOptimisticProposal("Grant", "Large spends need a full vote", "treasury", wallet1.address, 8000, deployer.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.SPENDING_LIMIT_EXCEEDED);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.SPENDING_LIMIT_EXCEEDED);
+        block.receipts[2].result.expectErr().expectUint(ErrorCode.SPENDING_LIMIT_EXCEEDED);
+        block.receipts[3].result.expectOk().expectUint(6);
+        block.receipts[4].result.expectOk().expectUint(7);
+        block.receipts[5].result.expectOk().expectUint(8);
+        block.receipts[6].result.expectErr().expectUint(ErrorCode.SPENDING_LIMIT_EXCEEDED);
+        
+        // Spends of 5% of the treasury or more need the large quorum
+        assertEquals(dao.getProposal(6)!.quorumRequired, 2000);
+        assertEquals(dao.getProposal(7)!.quorumRequired, 6000);
+        assertEquals(dao.getProposal(8)!.quorumRequired, 6000);
+        
+        chain.mineBlock([6, 7, 8].map((id) => dao.voteOnProposal(id, true, deployer.address)));
+        chain.mineEmptyBlockUntil(dao.getProposal(8)!.executionDelayEnd);
+        block = chain.mineBlock([
+            dao.executeProposal(6, deployer.address),
+            dao.executeProposal(7, deployer.address),
+            dao.executeProposal(8, deployer.address),
+            dao.createProposal("Grant", "Over the remaining cap", "treasury", wallet1.address, 3001, deployer.address)
+        ]);
+        let height = block.height;
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[1].result.expectOk().expectBool(true);
+        block.receipts[2].result.expectErr().expectUint(ErrorCode.SPENDING_LIMIT_EXCEEDED);
+        block.receipts[3].result.expectErr().expectUint(ErrorCode.SPENDING_LIMIT_EXCEEDED);
+        assertEquals(dao.getCurrentOutflow(), 12000);
+        
+        // Treasurer payments count toward the same cap
+        block = chain.mineBlock([
+            dao.joinDao(wallet2.address),
+            dao.grantRole(wallet2.address, "treasurer", deployer.address),
+            dao.treasurerPayment(wallet2.address, 3001, wallet2.address),
+            dao.treasurerPayment(wallet2.address, 3000, wallet2.address)
+        ]);
+        block.receipts[2].result.expectErr().expectUint(ErrorCode.SPENDING_LIMIT_EXCEEDED);
+        block.receipts[3].result.expectOk().expectBool(true);
+        assertEquals(dao.getCurrentOutflow(), 15000);
+        
+        // The cap covers the trailing spend period, so payouts count until a full period has passed
+        chain.mineEmptyBlockUntil(height + 998);
+        block = chain.mineBlock([dao.executeProposal(8, deployer.address)]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.SPENDING_LIMIT_EXCEEDED);
+        assertEquals(dao.getCurrentOutflow(), 15000);
+        block = chain.mineBlock([dao.executeProposal(8, deployer.address)]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        assertEquals(block.height, height + 1000);
+        assertEquals(dao.getCurrentOutflow(), 12000);
+        chain.mineEmptyBlock(1);
+        assertEquals(dao.getCurrentOutflow(), 9000);
+        assertEquals(dao.getDaoInfo().treasuryBalance, 76000);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure spending limits apply to SIP-010 treasury proposals against the asset's own balance and cap",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        let token = mockToken(deployer);
+        
+        let block = chain.mineBlock([
+            dao.initializeDao("Treasury DAO", "Testing asset spending limits", 10000, deployer.address),
+            mintMockTokens(10000, wallet1.address, wallet1.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        whitelistMockToken(chain, dao, deployer);
+        
+        block = chain.mineBlock([
+            dao.depositAsset(token, 10000, wallet1.address),
+            dao.createParameterProposal("Limits", "Per proposal", "max-spend-percentage", 50, deployer.address),
+            dao.createParameterProposal("Limits", "Large spends", "large-spend-percent", 20, deployer.address),
+            dao.createAssetCapProposal("Limits", "MOCK per period", token, 6000, deployer.address),
+            dao.createAssetCapProposal("Limits", "Not held", `${deployer.address}.mock-executor`, 6000, deployer.address),
+            dao.createAssetProposal("Limits", "Caps carry an amount", "cap", token, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts.slice(1, 4).forEach((receipt, index) => receipt.result.expectOk().expectUint(index + 2));
+        block.receipts[4].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        block.receipts[5].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        assertEquals(dao.getAssetAction(4), "cap");
+        
+        chain.mineBlock([2, 3, 4].map((id) => dao.voteOnProposal(id, true, deployer.address)));
+        chain.mineEmptyBlockUntil(dao.getProposal(4)!.executionDelayEnd);
+        block = chain.mineBlock([2, 3, 4].map((id) => dao.executeProposal(id, deployer.address)));
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        assertEquals(dao.getAssetSpendCap(token), 6000);
+        
+        // The per-proposal limit and the large-spend quorum use the asset's treasury balance
+        block = chain.mineBlock([
+            dao.createAssetTreasuryProposal("Pay in MOCK", "Whole balance", token, wallet2.address, 10000, deployer.address),
+            dao.createAssetTreasuryProposal("Pay in MOCK", "Over the cap", token, wallet2.address, 5000, deployer.address),
+            dao.createAssetTreasuryProposal("Pay in MOCK", "Large spend", token, wallet2.address, 5000, deployer.address),
+            dao.createAssetTreasuryProposal("Pay in MOCK", "Small spend", token, wallet2.address, 1000, deployer.address),
+            dao.createAssetTreasuryProposal("Pay in MOCK", "Past the cap", token, wallet2.address, 1000, deployer.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.SPENDING_LIMIT_EXCEEDED);
+        block.receipts.slice(1).forEach((receipt, index) => receipt.result.expectOk().expectUint(index + 5));
+        assertEquals(dao.getProposal(6)!.quorumRequired, 4000);
+        assertEquals(dao.getProposal(7)!.quorumRequired, 2000);
+        
+        // Payouts count toward the asset's cap and not the STX one
+        chain.mineBlock([5, 6, 7, 8].map((id) => dao.voteOnProposal(id, true, deployer.address)));
+        chain.mineEmptyBlockUntil(dao.getProposal(8)!.executionDelayEnd);
+        block = chain.mineBlock([
+            dao.executeAssetTreasuryProposal(6, token, deployer.address),
+            dao.executeAssetTreasuryProposal(5, token, deployer.address),
+            dao.executeAssetTreasuryProposal(7, token, deployer.address),
+            dao.executeAssetTreasuryProposal(8, token, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.SPENDING_LIMIT_EXCEEDED);
+        block.receipts[2].result.expectOk().expectBool(true);
+        block.receipts[3].result.expectErr().expectUint(ErrorCode.SPENDING_LIMIT_EXCEEDED);
+        assertEquals(dao.getAssetOutflow(token), 6000);
+        assertEquals(dao.getCurrentOutflow(), 0);
+        assertEquals(dao.getTreasuryAssetBalance(token), 4000);
+        assertEquals(mockTokenBalance(chain, wallet2.address), 6000);
+    },
+});
+        
+Clarinet.test({
+    name: "Ensure proposal bonds are refunded on quorum and slashed otherwise",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        let contract = `${deployer.address}.${CONTRACT_NAME}`;
+        
+        let block = chain.mineBlock([
+            dao.initializeDao("Treasury DAO", "Testing proposal bonds", 10000, deployer.address),
+            dao.depositToTreasury(5000, deployer.address),
+            dao.joinDao(wallet1.address),
+            dao.transferTokens(wallet1.address, 2000, deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        assertEquals(dao.getBondSettings(), { stxBond: 0, tokenBond: 0 });
+        
+        block = chain.mineBlock([
+            dao.createParameterProposal("Bonds", "Bond STX", "stx-bond", 1000, deployer.address),
+            dao.createParameterProposal("Bonds", "Bond tokens", "token-bond", 100, deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk());
+        assertEquals(dao.getProposalBond(1), null);
+        chain.mineBlock([dao.voteOnProposal(1, true, deployer.address), dao.voteOnProposal(2, true, deployer.address)]);
+        chain.mineEmptyBlockUntil(dao.getProposal(2)!.executionDelayEnd);
+        block = chain.mineBlock([dao.executeProposal(1, deployer.address), dao.executeProposal(2, deployer.address)]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        assertEquals(dao.getBondSettings(), { stxBond: 1000, tokenBond: 100 });
+        
+        let signal = (description: string) => dao.createProposal("Signal", description, "text", null, 0, wallet1.address);
+        block = chain.mineBlock([
+            signal("Reaches quorum"),
+            signal("Ignored"),
+            signal("Cancelled by a moderator"),
+            signal("Withdrawn")
+        ]);
+        block.receipts.forEach((receipt, index) => receipt.result.expectOk().expectUint(index + 3));
+        block.receipts[0].events.expectSTXTransferEvent(1000, wallet1.address, contract);
+        block.receipts[0].events.expectFungibleTokenTransferEvent(100, wallet1.address, contract, `${contract}::governance-token`);
+        assertEquals(dao.getProposalBond(3), { stx: 1000, tokens: 100, status: "locked" });
+        assertEquals(dao.getTokenBalance(wallet1.address), 1600);
+        assertEquals(dao.getTotalSupply(), 10000);
+        
+        // Bonded tokens held by the contract are left out of ragequit shares
+        assertEquals(dao.getDaoInfo().treasuryBalance, 5000);
+        assertEquals(dao.getRagequitShare(wallet1.address), 833);
+        
+        block = chain.mineBlock([
+            dao.cancelProposal(5, "Off-topic", deployer.address),
+            dao.cancelProposal(6, "", wallet1.address),
+            dao.voteOnProposal(3, true, deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        assertEquals(block.receipts[0].events.length, 0);
+        block.receipts[1].events.expectSTXTransferEvent(1000, contract, wallet1.address);
+        assertEquals(dao.getProposalBond(5)!.status, "slashed");
+        assertEquals(dao.getProposalBond(6)!.status, "refunded");
+        
+        chain.mineEmptyBlockUntil(dao.getProposal(4)!.votingEnd + 1);
+        block = chain.mineBlock([dao.finalizeProposal(3, wallet1.address), dao.finalizeProposal(4, wallet1.address)]);
+        block.receipts[0].result.expectOk().expectAscii("passed");
+        block.receipts[1].result.expectOk().expectAscii("no-quorum");
+        assertEquals(dao.getProposalBond(3)!.status, "refunded");
+        assertEquals(dao.getProposalBond(4)!.status, "slashed");
+        
+        // Two bonds were slashed and two refunded, each recorded once per asset; slashed tokens stay in the treasury
+        assertEquals(dao.getDaoInfo().treasuryBalance, 5000 + 2000);
+        assertEquals(dao.getTotalSupply(), 10000);
+        assertEquals(dao.getTokenBalance(contract), 200);
+        assertEquals(dao.getTreasuryAssetBalance(contract), 200);
+        assertEquals(dao.getTokenBalance(wallet1.address), 1800);
+        let transactions = [2, 3, 4, 5, 6, 7, 8, 9].map((id) => dao.getTreasuryTransaction(id)!);
+        assertEquals(transactions.map((tx) => tx.transactionType), [
+            "bond-slash", "bond-slash", "bond-refund", "bond-refund",
+            "bond-refund", "bond-refund", "bond-slash", "bond-slash",
+        ]);
+        assertEquals(transactions.map((tx) => tx.proposalId), [5, 5, 6, 6, 3, 3, 4, 4]);
+        assertEquals(transactions.map((tx) => tx.asset), [null, contract, null, contract, null, contract, null, contract]);
+        assertEquals(transactions[0].from, wallet1.address);
+        assertEquals(transactions[2].to, wallet1.address);
+        
+        // Settled bonds are not touched again
+        chain.mineEmptyBlockUntil(dao.getProposal(3)!.executionDelayEnd);
+        block = chain.mineBlock([dao.executeProposal(3, deployer.address)]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        assertEquals(dao.getTreasuryTransaction(10), null);
+        
+        // Slashed governance tokens are paid out by token proposals, and only up to what the treasury holds
+        block = chain.mineBlock([
+            dao.createTokenProposal("Reward", "More than held", "transfer", wallet1.address, 201, 0, 0, deployer.address),
+            dao.createTokenProposal("Reward", "Slashed tokens", "transfer", wallet1.address, 200, 0, 0, deployer.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.INVALID_PARAMETERS);
+        block.receipts[1].result.expectOk().expectUint(7);
+        // Bonded and slashed tokens held by the contract are left out of the quorum
+        assertEquals(dao.getProposal(7)!.quorumRequired, (10000 - 300) * 20 / 100);
+        chain.mineBlock([dao.voteOnProposal(7, true, deployer.address)]);
+        chain.mineEmptyBlockUntil(dao.getProposal(7)!.executionDelayEnd);
+        block = chain.mineBlock([dao.executeProposal(7, deployer.address)]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[0].events.expectFungibleTokenTransferEvent(200, contract, wallet1.address, `${contract}::governance-token`);
+        assertEquals(dao.getTreasuryAssetBalance(contract), 0);
+        assertEquals(dao.getTokenBalance(contract), 0);
+        assertEquals(dao.getTokenBalance(wallet1.address), 2000);
+        let payout = dao.getTreasuryTransaction(12)!;
+        assertEquals(payout.transactionType, "transfer");
+        assertEquals([payout.amount, payout.to, payout.asset], [200, wallet1.address, contract]);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure members who voted against a passed proposal can ragequit until it is executed",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet2 = accounts.get("wallet_2")!;
+        let wallet3 = accounts.get("wallet_3")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        
+        let block = chain.mineBlock([
+            dao.initializeDao("Treasury DAO", "Testing ragequit", 10000, deployer.address),
+            dao.depositToTreasury(6000, wallet3.address),
+            dao.transferTokens(wallet1.address, 2000, deployer.address),
+            dao.transferTokens(wallet2.address, 1000, deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        
+        block = chain.mineBlock([
+            dao.lockTokens(500, 1008, wallet2.address),
+            dao.createProposal("Pay Wallet 3", "Controversial grant", "treasury", wallet3.address, 1000, deployer.address),
+            dao.createProposal("Pay Wallet 3", "Rejected grant", "treasury", wallet3.address, 1000, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[1].result.expectOk().expectUint(1);
+        block.receipts[2].result.expectOk().expectUint(2);
+        
+        block = chain.mineBlock([
+            dao.voteOnProposal(1, true, deployer.address),
+            dao.voteOnProposal(1, false, wallet1.address),
+            dao.voteOnProposal(1, false, wallet2.address),
+            dao.voteOnProposal(2, false, deployer.address),
+            dao.voteOnProposal(2, false, wallet1.address),
+            dao.ragequit(1, wallet1.address)
+        ]);
+        block.receipts.slice(0, 5).forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        block.receipts[5].result.expectErr().expectUint(ErrorCode.VOTING_PERIOD_ENDED);
+        
+        // Ragequit opens once voting ends, only on passed proposals and only for members who voted against
+        chain.mineEmptyBlockUntil(dao.getProposal(1)!.votingEnd + 1);
+        assertEquals(dao.getRagequitShare(wallet1.address), 1200);
+        block = chain.mineBlock([
+            dao.ragequit(1, deployer.address),
+            dao.ragequit(2, wallet1.address),
+            dao.ragequit(1, wallet2.address),
+            dao.ragequit(3, wallet1.address),
+            dao.ragequit(1, wallet1.address),
+            dao.ragequit(1, wallet1.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ErrorCode.UNAUTHORIZED);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.PROPOSAL_NOT_ACTIVE);
+        block.receipts[2].result.expectErr().expectUint(ErrorCode.TOKENS_LOCKED);
+        block.receipts[3].result.expectErr().expectUint(ErrorCode.PROPOSAL_NOT_FOUND);
+        block.receipts[4].result.expectOk().expectUint(1200);
+        block.receipts[4].events.expectSTXTransferEvent(1200, `${deployer.address}.${CONTRACT_NAME}`, wallet1.address);
+        block.receipts[5].result.expectErr().expectUint(ErrorCode.INSUFFICIENT_TOKENS);
+        
+        // The tokens are burnt and the payout comes out of the tracked treasury balance
+        assertEquals(dao.getBalance(wallet1.address), 0);
+        assertEquals(dao.getTotalSupply(), 8000);
+        assertEquals(dao.getDaoInfo().treasuryBalance, 4800);
+        let payout = dao.getTreasuryTransaction(2)!;
+        assertEquals(payout.transactionType, "ragequit");
+        assertEquals(payout.amount, 1200);
+        assertEquals(payout.to, wallet1.address);
+        assertEquals(payout.proposalId, 1);
+        
+        // The window stays open until execution, and a treasury pause does not close it
+        chain.mineEmptyBlockUntil(dao.getProposal(1)!.executionDelayEnd);
+        block = chain.mineBlock([
+            dao.pauseOperations("treasury", "Exits under way", 0, deployer.address),
+            dao.executeProposal(1, deployer.address),
+            dao.withdrawLockedTokens(wallet2.address),
+            dao.ragequit(1, wallet2.address),
+            dao.resumeScope("treasury", deployer.address),
+            dao.executeProposal(1, deployer.address),
+            dao.ragequit(1, wallet2.address)
+        ]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        block.receipts[1].result.expectErr().expectUint(ErrorCode.EMERGENCY_PAUSE);
+        block.receipts[2].result.expectOk().expectUint(500);
+        block.receipts[3].result.expectOk().expectUint(600);
+        block.receipts[5].result.expectOk().expectBool(true);
+        block.receipts[6].result.expectErr().expectUint(ErrorCode.PROPOSAL_NOT_ACTIVE);
+        assertEquals(dao.getTotalSupply(), 7000);
+        assertEquals(dao.getDaoInfo().treasuryBalance, 3200);
+    },
+});
+        
+Clarinet.test({
+    name: "Ensure ragequit stays available when proposals have no execution delay",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        let deployer = accounts.get("deployer")!;
+        let wallet1 = accounts.get("wallet_1")!;
+        let wallet3 = accounts.get("wallet_3")!;
+        let dao = new DaoForgeClient(chain, deployer);
+        
+        let block = chain.mineBlock([
+            dao.initializeDao("Treasury DAO", "Testing ragequit without delay", 10000, deployer.address),
+            dao.depositToTreasury(5000, wallet3.address),
+            dao.transferTokens(wallet1.address, 2000, deployer.address)
+        ]);
+        block.receipts.forEach((receipt) => receipt.result.expectOk().expectBool(true));
+        
+        block = chain.mineBlock([dao.createParameterProposal("No delay", "Execute right away", "execution-delay", 0, deployer.address)]);
+        block.receipts[0].result.expectOk().expectUint(1);
+        voteAndWait(chain, dao, deployer, 1);
+        block = chain.mineBlock([dao.executeProposal(1, deployer.address)]);
+        block.receipts[0].result.expectOk().expectBool(true);
+        
+        block = chain.mineBlock([
+            dao.createProposal("Pay Wallet 3", "Controversial grant", "treasury", wallet3.address, 1000, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectUint(2);
+        chain.mineBlock([
+            dao.voteOnProposal(2, true, deployer.address),
+            dao.voteOnProposal(2, false, wallet1.address)
+        ]);
+        assertEquals(dao.getProposal(2)!.executionDelayEnd, dao.getProposal(2)!.votingEnd);
+        
+        chain.mineEmptyBlockUntil(dao.getProposal(2)!.votingEnd + 1);
+        block = chain.mineBlock([
+            dao.ragequit(2, wallet1.address),
+            dao.executeProposal(2, deployer.address)
+        ]);
+        block.receipts[0].result.expectOk().expectUint(1000);
+        block.receipts[1].result.expectOk().expectBool(true);
+        assertEquals(dao.getDaoInfo().treasuryBalance, 3000);
+    },
+});